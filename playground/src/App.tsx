@@ -0,0 +1,206 @@
+import { useRef, useState } from 'react'
+import './App.css'
+import { SpeedometerV2, SpeedometerThemeProvider, SpeedometerLocaleProvider, type SpeedometerV2Handle } from 'speedometer-component'
+import Playground from './Playground'
+
+const slaZones = [
+  { from: 0, to: 40, color: '#ef4444', label: 'danger' },
+  { from: 40, to: 75, color: '#f59e0b', label: 'warn' },
+  { from: 75, to: 100, color: '#10b981', label: 'ok' },
+]
+
+const springAnimation = { type: 'spring', damping: 16 } as const
+const triangleAnimation = { waveform: 'triangle', periodMs: 3000 } as const
+const jitterAnimation = { waveform: 'jitter' } as const
+
+// Fake telemetry: a bounded random walk pushed ten times a second
+const telemetrySource = (emit: (value: number) => void) => {
+  let value = 50
+  const id = setInterval(() => {
+    value = Math.max(0, Math.min(100, value + (Math.random() - 0.5) * 14))
+    emit(value)
+  }, 100)
+  return () => clearInterval(id)
+}
+
+function App() {
+  const controlled = useRef<SpeedometerV2Handle>(null)
+  const [settledAt, setSettledAt] = useState<number | null>(null)
+  const [springTarget, setSpringTarget] = useState(60)
+  const [risk, setRisk] = useState(40)
+  const [savedRisk, setSavedRisk] = useState(40)
+
+  return (
+    <div style={{ padding: 20 }}>
+      <h1 style={{ marginBottom: 16 }}>Speedometer Playground</h1>
+      <Playground />
+
+      <h2 style={{ marginTop: 28, marginBottom: 16 }}>Multiple needles</h2>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 24 }}>
+        <SpeedometerV2
+          startValue={0}
+          endValue={62}
+          type="pro"
+          perpetual={false}
+          label="Your score"
+          legend
+          markers={[
+            { value: 48, label: 'Pro median', color: '#6366f1' },
+            { value: 80, label: 'Goal', color: '#f59e0b', style: 'triangle' },
+            { value: 30, label: 'Last year', color: '#9ca3af', style: 'tick' },
+          ]}
+        />
+      </div>
+
+      <h2 style={{ marginTop: 28, marginBottom: 16 }}>Input mode</h2>
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 24 }}>
+        <SpeedometerV2
+          interactive
+          value={risk}
+          step={5}
+          onChange={setRisk}
+          onChangeCommitted={setSavedRisk}
+          type="pro"
+          label="Risk tolerance"
+          subLabel="drag, click or use arrow keys"
+          zones={slaZones}
+          zoneMode="progress"
+        />
+        <div>Saved: {savedRisk}%</div>
+      </div>
+
+      <h2 style={{ marginTop: 28, marginBottom: 16 }}>Arc geometry</h2>
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'flex-end', gap: 24 }}>
+        <SpeedometerV2 startValue={0} endValue={40} type="free" perpetual={false} label="Quarter" size={200} startAngle={-90} endAngle={0} />
+        <SpeedometerV2 startValue={0} endValue={5200} min={0} max={8000} unit="rpm" type="pro" perpetual={false} label="Automotive 270°" size={240} startAngle={-135} endAngle={135} scale={{ majorTicks: 8, formatLabel: (v) => String(v / 1000) }} />
+        <SpeedometerV2 startValue={0} endValue={70} type="pro" perpetual={false} label="Ring" size={240} startAngle={0} endAngle={360} />
+        <SpeedometerV2 startValue={0} endValue={70} type="free" perpetual={false} label="Mirrored (RTL)" size={240} startAngle={104} endAngle={-104} />
+      </div>
+
+      <h2 style={{ marginTop: 28, marginBottom: 16 }}>Delta and trend</h2>
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'flex-end', gap: 24 }}>
+        <SpeedometerV2 startValue={0} endValue={62} type="pro" perpetual={false} label="Weekly score" previousValue={58} history={[51, 55, 54, 58, 62]} />
+        <SpeedometerV2 startValue={0} endValue={47} type="free" perpetual={false} label="Weekly score" previousValue={49} history={[60, 57, 52, 49, 47]} />
+      </div>
+
+      <h2 style={{ marginTop: 28, marginBottom: 16 }}>Render slots</h2>
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'flex-end', gap: 24 }}>
+        <SpeedometerV2
+          startValue={0}
+          endValue={72}
+          type="pro"
+          perpetual={false}
+          label="Battery"
+          renderCenter={({ x, y, formattedValue, geometry }) => (
+            <text x={x} y={y} textAnchor="middle" dominantBaseline="central" fontSize={32 * geometry.scale} fontWeight={600}>
+              🔋 {formattedValue}%
+            </text>
+          )}
+          renderNeedle={({ geometry: { centerX, centerY, scale }, length, color }) => (
+            <path d={`M ${centerX - 5 * scale} ${centerY} L ${centerX} ${centerY - length} L ${centerX + 5 * scale} ${centerY} Z`} fill={color} />
+          )}
+        />
+        <SpeedometerV2
+          startValue={0}
+          endValue={38}
+          type="free"
+          perpetual={false}
+          renderLabel={({ x, y, theme, percent }) => (
+            <text x={x} y={y} textAnchor="middle" dominantBaseline="central" fill={theme.label} fontSize={14}>
+              <tspan fontWeight={600}>{percent < 50 ? 'Below' : 'Above'}</tspan> the median
+            </text>
+          )}
+        />
+      </div>
+
+      <h2 style={{ marginTop: 28, marginBottom: 16 }}>Variants</h2>
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'flex-end', gap: 24 }}>
+        <SpeedometerV2 startValue={0} endValue={62} type="pro" perpetual={false} label="Segmented" size={240} variant="segmented" segments={{ count: 8, gap: 4, cornerRadius: 3 }} />
+        <SpeedometerV2 startValue={0} endValue={82} type="free" perpetual={false} label="Segmented zones" size={240} variant="segmented" segments={{ count: 12 }} zones={slaZones} />
+        <SpeedometerV2 startValue={0} endValue={70} type="pro" perpetual={false} label="Arc only" size={240} variant="arc" />
+      </div>
+
+      <h2 style={{ marginTop: 28, marginBottom: 16 }}>Locales and RTL</h2>
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'flex-end', gap: 24 }}>
+        <SpeedometerLocaleProvider locale="ar-EG" direction="rtl" messages={{ proLabel: 'معظم مستخدمي Pro', freeLabel: 'نتيجتك' }}>
+          <SpeedometerV2 startValue={0} endValue={62} type="pro" perpetual={false} size={240} legend markers={[{ value: 48, label: 'الوسيط', color: '#6366f1' }]} />
+        </SpeedometerLocaleProvider>
+        <SpeedometerV2 startValue={0} endValue={62} type="free" perpetual={false} size={240} locale="tr" messages={{ freeLabel: 'Puanınız' }} />
+        <SpeedometerV2 startValue={0} endValue={62} type="free" perpetual={false} size={240} locale="de" messages={{ freeLabel: 'Ihr Ergebnis' }} />
+      </div>
+
+      <h2 style={{ marginTop: 28, marginBottom: 16 }}>Sizing</h2>
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'flex-end', gap: 24 }}>
+        <SpeedometerV2 startValue={0} endValue={54} type="free" perpetual={false} label="120px" size={120} />
+        <SpeedometerV2 startValue={0} endValue={54} type="free" perpetual={false} label="200px" size={200} />
+        <div style={{ width: '40%', minWidth: 240, resize: 'horizontal', overflow: 'hidden', border: '1px dashed #9ca3af', padding: 8 }}>
+          <SpeedometerV2 startValue={0} endValue={83} type="pro" perpetual={false} label="Fill (drag corner)" size="fill" />
+        </div>
+      </div>
+
+      <h2 style={{ marginTop: 28, marginBottom: 16 }}>Imperative control</h2>
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 24 }}>
+        <SpeedometerV2
+          ref={controlled}
+          startValue={0}
+          endValue={40}
+          type="pro"
+          perpetual={false}
+          label="Controlled"
+          onAnimationStart={() => setSettledAt(null)}
+          onAnimationEnd={(value) => setSettledAt(value)}
+        />
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+          <button onClick={() => controlled.current?.play()}>Play</button>
+          <button onClick={() => controlled.current?.pause()}>Pause</button>
+          <button onClick={() => controlled.current?.reset()}>Reset</button>
+          <button onClick={() => void controlled.current?.animateTo(Math.round(Math.random() * 100))}>Animate to random</button>
+          <div>{settledAt === null ? 'Moving…' : `Settled at ${Math.round(settledAt)}%`}</div>
+        </div>
+      </div>
+
+      <h2 style={{ marginTop: 28, marginBottom: 16 }}>Animation engines</h2>
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 24 }}>
+        <SpeedometerV2 startValue={0} endValue={springTarget} type="pro" perpetual={false} label="Spring" subLabel="click to retarget" animation={springAnimation} />
+        <button onClick={() => setSpringTarget(Math.round(Math.random() * 100))}>Retarget spring</button>
+        <SpeedometerV2 startValue={0} endValue={72} type="free" perpetual={false} label="Overshoot" animation="overshoot" />
+        <SpeedometerV2 startValue={30} endValue={70} type="free" perpetual={true} label="Triangle" animation={triangleAnimation} />
+        <SpeedometerV2 startValue={30} endValue={70} type="pro" perpetual={true} label="Jitter" animation={jitterAnimation} />
+      </div>
+
+      <h2 style={{ marginTop: 28, marginBottom: 16 }}>Live data</h2>
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 24 }}>
+        <SpeedometerV2 source={telemetrySource} type="pro" label="Critical follow" subLabel="peak hold" live={{ peakHold: true }} />
+        <SpeedometerV2 source={telemetrySource} type="free" label="EMA" subLabel="400ms" live={{ smoothing: 'ema', smoothingMs: 400 }} />
+        <SpeedometerV2 source={telemetrySource} type="free" label="Raw" subLabel="no smoothing" live={{ smoothing: 'none' }} />
+      </div>
+
+      <h2 style={{ marginTop: 28, marginBottom: 16 }}>Canvas wall (40 perpetual gauges)</h2>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8 }}>
+        {Array.from({ length: 40 }, (_, i) => (
+          <SpeedometerV2
+            key={i}
+            renderer="canvas"
+            size={120}
+            startValue={10 + (i % 5) * 8}
+            endValue={60 + (i % 7) * 5}
+            type={i % 2 ? 'pro' : 'free'}
+            perpetual
+            animation={{ periodMs: 3000 + (i % 9) * 400 }}
+            label={`Node ${i + 1}`}
+          />
+        ))}
+      </div>
+
+      <h2 style={{ marginTop: 28, marginBottom: 16 }}>Theming</h2>
+      <SpeedometerThemeProvider theme="dark">
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 24, background: '#111827', borderRadius: 8, padding: 12 }}>
+          <SpeedometerV2 startValue={0} endValue={54} perpetual={false} label="Dark preset" scale={{}} />
+          <SpeedometerV2 startValue={20} endValue={80} perpetual={true} label="Dark + amber needle" theme={{ needle: '#f59e0b', needleCap: '#f59e0b' }} />
+        </div>
+      </SpeedometerThemeProvider>
+    </div>
+  )
+}
+
+export default App
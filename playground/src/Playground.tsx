@@ -0,0 +1,426 @@
+import { useEffect, useMemo, useState, type ReactNode } from 'react'
+import { SpeedometerThemeProvider, SpeedometerV2 } from 'speedometer-component'
+import {
+  decodePlaygroundState,
+  defaultPlaygroundState,
+  describeState,
+  encodePlaygroundState,
+  localeOptions,
+  playgroundOptions,
+  toSpeedometerProps,
+  type PlaygroundState,
+} from './playgroundState'
+import { toJsxSnippet } from './playgroundSnippet'
+import { playgroundPresets } from './playgroundPresets'
+
+type Update = <K extends keyof PlaygroundState>(key: K, value: PlaygroundState[K]) => void
+
+const fieldStyle = { display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 8, fontSize: 14 } as const
+const inputStyle = { width: 120 } as const
+const groupStyle = { border: '1px solid #e5e7eb', borderRadius: 8, padding: '8px 12px', display: 'grid', gap: 6 } as const
+const cardStyle = { border: '1px solid #e5e7eb', borderRadius: 8, padding: 12 } as const
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label style={fieldStyle}>
+      <span>{label}</span>
+      {children}
+    </label>
+  )
+}
+
+function NumberField({
+  label,
+  value,
+  onChange,
+  disabled,
+  step = 1,
+}: {
+  label: string
+  value: number
+  onChange: (value: number) => void
+  disabled?: boolean
+  step?: number
+}) {
+  return (
+    <Field label={label}>
+      <input
+        type="number"
+        style={inputStyle}
+        value={value}
+        step={step}
+        disabled={disabled}
+        onChange={(e) => {
+          // Ignore the transient empty/partial input; the last valid number stays in the state
+          if (e.target.value !== '' && Number.isFinite(e.target.valueAsNumber)) onChange(e.target.valueAsNumber)
+        }}
+      />
+    </Field>
+  )
+}
+
+function RangeField({
+  label,
+  value,
+  min,
+  max,
+  onChange,
+  disabled,
+  step = (max - min) / 100 >= 1 ? Math.round((max - min) / 100) : 1,
+}: {
+  label: string
+  value: number
+  min: number
+  max: number
+  onChange: (value: number) => void
+  disabled?: boolean
+  step?: number
+}) {
+  return (
+    <Field label={`${label}: ${value}`}>
+      <input
+        type="range"
+        style={inputStyle}
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.valueAsNumber)}
+      />
+    </Field>
+  )
+}
+
+function TextField({
+  label,
+  value,
+  onChange,
+  placeholder,
+  disabled,
+}: {
+  label: string
+  value: string
+  onChange: (value: string) => void
+  placeholder?: string
+  disabled?: boolean
+}) {
+  return (
+    <Field label={label}>
+      <input
+        style={inputStyle}
+        value={value}
+        placeholder={placeholder}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    </Field>
+  )
+}
+
+function Toggle({
+  label,
+  checked,
+  onChange,
+  disabled,
+}: {
+  label: string
+  checked: boolean
+  onChange: (checked: boolean) => void
+  disabled?: boolean
+}) {
+  return (
+    <Field label={label}>
+      <input type="checkbox" checked={checked} disabled={disabled} onChange={(e) => onChange(e.target.checked)} />
+    </Field>
+  )
+}
+
+function Select<T extends string>({
+  label,
+  value,
+  options,
+  onChange,
+  format = (option) => option,
+}: {
+  label: string
+  value: T
+  options: readonly T[]
+  onChange: (value: T) => void
+  format?: (option: T) => string
+}) {
+  return (
+    <Field label={label}>
+      <select style={inputStyle} value={value} onChange={(e) => onChange(e.target.value as T)}>
+        {options.map((option) => (
+          <option key={option} value={option}>
+            {format(option)}
+          </option>
+        ))}
+      </select>
+    </Field>
+  )
+}
+
+function Group({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <fieldset style={groupStyle}>
+      <legend style={{ fontWeight: 600, padding: '0 4px' }}>{title}</legend>
+      {children}
+    </fieldset>
+  )
+}
+
+function Controls({ state, update }: { state: PlaygroundState; update: Update }) {
+  const o = playgroundOptions
+  return (
+    <div style={{ display: 'grid', gap: 12, alignContent: 'start' }}>
+      <Group title="Values">
+        <RangeField
+          label="startValue"
+          value={state.startValue}
+          min={state.min}
+          max={state.max}
+          disabled={state.interactive}
+          onChange={(v) => update('startValue', v)}
+        />
+        <RangeField
+          label={state.interactive ? 'value' : 'endValue'}
+          value={state.endValue}
+          min={state.min}
+          max={state.max}
+          onChange={(v) => update('endValue', v)}
+        />
+        <NumberField label="min" value={state.min} onChange={(v) => update('min', v)} />
+        <NumberField label="max" value={state.max} onChange={(v) => update('max', v)} />
+        <Toggle label="perpetual" checked={state.perpetual} disabled={state.interactive} onChange={(v) => update('perpetual', v)} />
+        <Toggle label="interactive" checked={state.interactive} onChange={(v) => update('interactive', v)} />
+        <NumberField label="step" value={state.step} disabled={!state.interactive} onChange={(v) => update('step', v)} />
+        <Select label="status" value={state.status} options={o.status} onChange={(v) => update('status', v)} />
+        <TextField
+          label="statusMessage"
+          value={state.statusMessage}
+          placeholder="default message"
+          disabled={state.status !== 'error' && state.status !== 'stale'}
+          onChange={(v) => update('statusMessage', v)}
+        />
+      </Group>
+
+      <Group title="Text and formatting">
+        <TextField label="label" value={state.label} placeholder="type default" onChange={(v) => update('label', v)} />
+        <TextField label="subLabel" value={state.subLabel} onChange={(v) => update('subLabel', v)} />
+        <TextField label="unit" value={state.unit} onChange={(v) => update('unit', v)} />
+        <NumberField label="decimals" value={state.decimals} onChange={(v) => update('decimals', Math.max(0, Math.min(6, v)))} />
+        <Toggle label="compact numbers" checked={state.compact} onChange={(v) => update('compact', v)} />
+        <Select
+          label="locale"
+          value={state.locale}
+          options={localeOptions}
+          format={(v) => v || 'browser'}
+          onChange={(v) => update('locale', v)}
+        />
+        <Select label="direction" value={state.direction} options={o.direction} onChange={(v) => update('direction', v)} />
+      </Group>
+
+      <Group title="Look">
+        <Select label="type" value={state.type} options={o.type} onChange={(v) => update('type', v)} />
+        <Select
+          label="theme"
+          value={state.theme}
+          options={o.theme}
+          format={(v) => (v === 'type' ? 'from type' : v)}
+          onChange={(v) => update('theme', v)}
+        />
+        <TextField label="needle color" value={state.needleColor} placeholder="#f59e0b" onChange={(v) => update('needleColor', v)} />
+        <RangeField label="size" value={state.size} min={120} max={480} onChange={(v) => update('size', v)} disabled={state.fill} />
+        <Toggle label='size="fill"' checked={state.fill} onChange={(v) => update('fill', v)} />
+        <Select label="renderer" value={state.renderer} options={o.renderer} onChange={(v) => update('renderer', v)} />
+      </Group>
+
+      <Group title="Geometry and variant">
+        <RangeField label="startAngle" value={state.startAngle} min={-360} max={360} step={1} onChange={(v) => update('startAngle', v)} />
+        <RangeField label="endAngle" value={state.endAngle} min={-360} max={360} step={1} onChange={(v) => update('endAngle', v)} />
+        <Select label="variant" value={state.variant} options={o.variant} onChange={(v) => update('variant', v)} />
+        <Select label="needle" value={state.needle} options={o.needle} onChange={(v) => update('needle', v)} />
+        {state.variant === 'segmented' && (
+          <>
+            <NumberField label="segments.count" value={state.segmentCount} onChange={(v) => update('segmentCount', Math.max(1, v))} />
+            <NumberField label="segments.gap" value={state.segmentGap} onChange={(v) => update('segmentGap', Math.max(0, v))} />
+          </>
+        )}
+      </Group>
+
+      <Group title="Zones, scale and markers">
+        <Toggle label="zones (sample)" checked={state.zones} onChange={(v) => update('zones', v)} />
+        <Select label="zoneMode" value={state.zoneMode} options={o.zoneMode} onChange={(v) => update('zoneMode', v)} />
+        <Toggle label="scale" checked={state.scale} onChange={(v) => update('scale', v)} />
+        {state.scale && (
+          <>
+            <NumberField label="majorTicks" value={state.majorTicks} onChange={(v) => update('majorTicks', Math.max(1, v))} />
+            <NumberField label="minorTicks" value={state.minorTicks} onChange={(v) => update('minorTicks', Math.max(0, v))} />
+            <Select
+              label="placement"
+              value={state.scalePlacement}
+              options={o.scalePlacement}
+              onChange={(v) => update('scalePlacement', v)}
+            />
+          </>
+        )}
+        <Toggle label="markers (sample)" checked={state.markers} onChange={(v) => update('markers', v)} />
+        <Toggle label="legend" checked={state.legend} onChange={(v) => update('legend', v)} />
+      </Group>
+
+      <Group title="Trend">
+        <Toggle label="previousValue" checked={state.showPrevious} onChange={(v) => update('showPrevious', v)} />
+        {state.showPrevious && (
+          <NumberField label="previous" value={state.previousValue} onChange={(v) => update('previousValue', v)} />
+        )}
+        <TextField label="history" value={state.history} placeholder="51, 55, 58" onChange={(v) => update('history', v)} />
+      </Group>
+
+      <Group title="Motion">
+        <Select label="animation" value={state.easing} options={o.easing} onChange={(v) => update('easing', v)} />
+        {state.easing === 'spring' ? (
+          <>
+            <NumberField label="stiffness" value={state.stiffness} onChange={(v) => update('stiffness', Math.max(1, v))} />
+            <NumberField label="damping" value={state.damping} onChange={(v) => update('damping', Math.max(0, v))} />
+          </>
+        ) : (
+          <NumberField
+            label="durationMs (0 = auto)"
+            value={state.durationMs}
+            step={100}
+            onChange={(v) => update('durationMs', Math.max(0, v))}
+          />
+        )}
+        <Select label="waveform" value={state.waveform} options={o.waveform} onChange={(v) => update('waveform', v)} />
+        <NumberField label="periodMs" value={state.periodMs} step={100} onChange={(v) => update('periodMs', Math.max(100, v))} />
+        <Toggle label="animateOnMount" checked={state.animateOnMount} onChange={(v) => update('animateOnMount', v)} />
+        <Select
+          label="reducedMotion"
+          value={state.reducedMotion}
+          options={o.reducedMotion}
+          onChange={(v) => update('reducedMotion', v)}
+        />
+      </Group>
+
+      <Group title="Accessibility">
+        <Select label="role" value={state.role} options={o.role} onChange={(v) => update('role', v)} />
+        <Select label="announce" value={state.announce} options={o.announce} onChange={(v) => update('announce', v)} />
+        <Toggle label="tooltip" checked={state.tooltip} onChange={(v) => update('tooltip', v)} />
+      </Group>
+    </div>
+  )
+}
+
+// A gauge for a playground state; the dark theme comes from a provider, as in the generated snippet
+function Gauge({
+  state,
+  onValueChange,
+  size,
+}: {
+  state: PlaygroundState
+  onValueChange?: (value: number) => void
+  size?: number
+}) {
+  const { value, ...props } = toSpeedometerProps(state)
+  // Without a change handler an input gauge keeps its own value, starting at endValue
+  const gauge =
+    state.interactive && !onValueChange ? (
+      <SpeedometerV2 {...props} endValue={state.endValue} size={size ?? props.size} />
+    ) : (
+      <SpeedometerV2 {...props} value={value} size={size ?? props.size} onChange={onValueChange} />
+    )
+  return state.theme === 'dark' ? <SpeedometerThemeProvider theme="dark">{gauge}</SpeedometerThemeProvider> : gauge
+}
+
+export default function Playground() {
+  // Shared links carry the state in the query string
+  const [state, setState] = useState<PlaygroundState>(() => decodePlaygroundState(window.location.search))
+  const [replayKey, setReplayKey] = useState(0)
+  const [copied, setCopied] = useState<'code' | 'link' | null>(null)
+  const snippet = useMemo(() => toJsxSnippet(state), [state])
+
+  useEffect(() => {
+    const url = `${window.location.pathname}${encodePlaygroundState(state)}${window.location.hash}`
+    window.history.replaceState(null, '', url)
+  }, [state])
+
+  const update: Update = (key, value) => setState((prev) => ({ ...prev, [key]: value }))
+
+  const copy = (what: 'code' | 'link') => {
+    void navigator.clipboard?.writeText(what === 'code' ? snippet : window.location.href).then(() => {
+      setCopied(what)
+      setTimeout(() => setCopied(null), 1500)
+    })
+  }
+
+  const load = (next: PlaygroundState) => {
+    setState(next)
+    setReplayKey((key) => key + 1)
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }
+
+  const dark = state.theme === 'dark'
+
+  return (
+    <div style={{ textAlign: 'left' }}>
+      <div style={{ display: 'grid', gridTemplateColumns: 'minmax(280px, 340px) 1fr', gap: 24, alignItems: 'start' }}>
+        <Controls state={state} update={update} />
+
+        <div style={{ display: 'grid', gap: 12, position: 'sticky', top: 12 }}>
+          <div style={{ fontWeight: 600 }}>{describeState(state)}</div>
+          <div
+            style={{
+              ...cardStyle,
+              display: 'flex',
+              justifyContent: 'center',
+              background: dark ? '#111827' : undefined,
+              minHeight: 240,
+            }}
+          >
+            <div style={{ width: state.fill ? '100%' : undefined }}>
+              <Gauge key={replayKey} state={state} onValueChange={(v) => update('endValue', v)} />
+            </div>
+          </div>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8 }}>
+            <button onClick={() => setReplayKey((key) => key + 1)}>Replay</button>
+            <button onClick={() => copy('code')}>{copied === 'code' ? 'Copied' : 'Copy JSX'}</button>
+            <button onClick={() => copy('link')}>{copied === 'link' ? 'Copied' : 'Copy link'}</button>
+            <button onClick={() => load(defaultPlaygroundState)}>Reset</button>
+          </div>
+          <pre
+            style={{
+              margin: 0,
+              padding: 12,
+              borderRadius: 8,
+              background: '#1f2937',
+              color: '#e5e7eb',
+              fontSize: 13,
+              overflowX: 'auto',
+            }}
+          >
+            <code>{snippet}</code>
+          </pre>
+        </div>
+      </div>
+
+      <h2 style={{ marginTop: 28, marginBottom: 16 }}>Preset gallery</h2>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(240px, 1fr))', gap: 16 }}>
+        {playgroundPresets.map((preset) => (
+          <div
+            key={preset.name}
+            style={{ ...cardStyle, display: 'grid', gap: 8, background: preset.state.theme === 'dark' ? '#111827' : undefined }}
+          >
+            <div style={{ fontWeight: 600 }}>{describeState(preset.state)}</div>
+            <div style={{ fontSize: 13, color: '#6b7280' }}>
+              {preset.name}: {preset.description}
+            </div>
+            <Gauge state={preset.state} size={200} />
+            <button onClick={() => load(preset.state)}>Open in playground</button>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
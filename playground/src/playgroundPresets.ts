@@ -0,0 +1,106 @@
+import { defaultPlaygroundState, type PlaygroundState } from './playgroundState'
+
+export interface PlaygroundPreset {
+  name: string
+  description: string
+  state: PlaygroundState
+}
+
+const preset = (name: string, description: string, overrides: Partial<PlaygroundState>): PlaygroundPreset => ({
+  name,
+  description,
+  state: { ...defaultPlaygroundState, ...overrides },
+})
+
+// Scenarios designers sign off on; card titles are derived from the state, so they always match the gauge
+export const playgroundPresets: PlaygroundPreset[] = [
+  preset('Personal score', 'One-shot animation to the user’s result', { endValue: 54, subLabel: 'Compared to your peers' }),
+  preset('Pro benchmark', 'Pro styling and default label', { type: 'pro', endValue: 83, subLabel: 'Benchmark' }),
+  preset('Idle sway', 'Perpetual sine sway between two values', { startValue: 30, endValue: 70, perpetual: true }),
+  preset('Pro idle sway', 'Slower triangle sway', {
+    type: 'pro',
+    startValue: 30,
+    endValue: 70,
+    perpetual: true,
+    waveform: 'triangle',
+    periodMs: 3000,
+  }),
+  preset('Engine', 'Custom domain, compact numbers and an outside scale', {
+    type: 'pro',
+    endValue: 5400,
+    max: 8000,
+    unit: 'rpm',
+    compact: true,
+    label: 'Engine',
+    scale: true,
+    majorTicks: 8,
+    minorTicks: 1,
+    scalePlacement: 'outside',
+    startAngle: -135,
+    endAngle: 135,
+  }),
+  preset('Latency', 'Negative minimum and a unit other than %', {
+    startValue: -50,
+    endValue: 212,
+    min: -50,
+    max: 500,
+    unit: 'ms',
+    label: 'Latency',
+    subLabel: 'p95',
+  }),
+  preset('SLA zones', 'Threshold bands on the track', { type: 'pro', endValue: 62, label: 'SLA', zones: true }),
+  preset('SLA progress', 'Zones fill with the needle while it sways', {
+    startValue: 30,
+    endValue: 90,
+    perpetual: true,
+    label: 'SLA',
+    zones: true,
+    zoneMode: 'progress',
+  }),
+  preset('Benchmarks', 'Median and goal markers with a legend', { type: 'pro', endValue: 62, markers: true, legend: true }),
+  preset('Weekly trend', 'Change badge, ghost marker and sparkline', {
+    type: 'pro',
+    endValue: 62,
+    label: 'Weekly score',
+    showPrevious: true,
+    previousValue: 58,
+    history: '51, 55, 54, 58, 62',
+  }),
+  preset('Segmented', 'Lit blocks instead of a needle; hover a block for its range', {
+    endValue: 62,
+    variant: 'segmented',
+    segmentCount: 12,
+    zones: true,
+    tooltip: true,
+  }),
+  preset('Ring', 'Full-turn arc without a needle', { type: 'pro', endValue: 70, variant: 'arc', startAngle: 0, endAngle: 360 }),
+  preset('Dark spring', 'Dark theme with a spring animation', {
+    endValue: 72,
+    theme: 'dark',
+    easing: 'spring',
+    damping: 16,
+    needleColor: '#f59e0b',
+  }),
+  preset('Arabic (RTL)', 'Eastern Arabic digits, mirrored sweep', {
+    endValue: 62,
+    locale: 'ar-EG',
+    direction: 'rtl',
+    label: 'نتيجتك',
+  }),
+  preset('Backend down', 'Error state instead of a confident 0%', {
+    type: 'pro',
+    endValue: 83,
+    label: 'Uptime',
+    status: 'error',
+    statusMessage: 'Metrics API unreachable',
+  }),
+  preset('Risk input', 'Drag, click or use the arrow keys', {
+    interactive: true,
+    endValue: 40,
+    step: 5,
+    type: 'pro',
+    label: 'Risk tolerance',
+    zones: true,
+    zoneMode: 'progress',
+  }),
+]
@@ -0,0 +1,46 @@
+import { toSpeedometerProps, type PlaygroundState } from './playgroundState'
+
+// JS literal for a prop value: objects inline, arrays of objects one item per line
+const literal = (value: unknown, indent: string): string => {
+  if (typeof value === 'string') return JSON.stringify(value)
+  if (Array.isArray(value)) {
+    if (!value.some((item) => typeof item === 'object')) return `[${value.map((item) => literal(item, indent)).join(', ')}]`
+    const inner = `${indent}  `
+    return `[\n${value.map((item) => `${inner}${literal(item, inner)},`).join('\n')}\n${indent}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).map(([key, v]) => `${key}: ${literal(v, indent)}`)
+    return entries.length ? `{ ${entries.join(', ')} }` : '{}'
+  }
+  return String(value)
+}
+
+const attribute = (name: string, value: unknown, indent: string): string => {
+  if (typeof value === 'string') return `${name}=${JSON.stringify(value)}`
+  if (value === true) return name
+  return `${name}={${literal(value, indent)}}`
+}
+
+const indentLines = (text: string, indent: string) =>
+  text
+    .split('\n')
+    .map((line) => indent + line)
+    .join('\n')
+
+// Copy-pasteable JSX for the current playground state, with the imports it needs
+export const toJsxSnippet = (state: PlaygroundState): string => {
+  const attributes = Object.entries(toSpeedometerProps(state)).map(([name, value]) => attribute(name, value, ''))
+  if (state.interactive) attributes.push('onChange={setValue}')
+
+  const oneLine = `<SpeedometerV2 ${attributes.join(' ')} />`
+  let jsx =
+    oneLine.length <= 80 && !oneLine.includes('\n')
+      ? oneLine
+      : `<SpeedometerV2\n${indentLines(attributes.join('\n'), '  ')}\n/>`
+  const imports = ['SpeedometerV2']
+  if (state.theme === 'dark') {
+    imports.push('SpeedometerThemeProvider')
+    jsx = `<SpeedometerThemeProvider theme="dark">\n${indentLines(jsx, '  ')}\n</SpeedometerThemeProvider>`
+  }
+  return `import { ${imports.join(', ')} } from "speedometer-component";\n\n${jsx}`
+}
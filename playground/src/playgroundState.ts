@@ -0,0 +1,308 @@
+import type {
+  EasingPreset,
+  GaugeMarker,
+  GaugeStatus,
+  GaugeType,
+  GaugeVariant,
+  GaugeZone,
+  ReducedMotionSetting,
+  SpeedometerAnimation,
+  SpeedometerDirection,
+  SpeedometerV2Props,
+  Waveform,
+  ZoneMode,
+} from 'speedometer-component'
+
+// Everything the playground controls, flat and JSON-friendly so it fits in a query string
+export interface PlaygroundState {
+  // Values
+  startValue: number
+  endValue: number
+  min: number
+  max: number
+  perpetual: boolean
+  interactive: boolean
+  step: number
+  status: GaugeStatus
+  statusMessage: string // '' = the default message
+  // Text and formatting
+  label: string // '' = the type's default label
+  subLabel: string
+  unit: string
+  decimals: number
+  compact: boolean // numberFormat { notation: 'compact' }
+  locale: string // '' = browser default
+  direction: SpeedometerDirection
+  // Look
+  type: GaugeType
+  theme: 'type' | 'dark' // 'type' = the preset picked by `type`
+  needleColor: string // '' = theme default
+  size: number
+  fill: boolean // size="fill"
+  renderer: 'svg' | 'canvas'
+  // Geometry and variant
+  startAngle: number
+  endAngle: number
+  variant: GaugeVariant
+  needle: 'auto' | 'show' | 'hide'
+  segmentCount: number
+  segmentGap: number
+  // Zones, scale and markers
+  zones: boolean
+  zoneMode: ZoneMode
+  scale: boolean
+  majorTicks: number
+  minorTicks: number
+  scalePlacement: 'inside' | 'outside'
+  markers: boolean
+  legend: boolean
+  // Trend
+  showPrevious: boolean
+  previousValue: number
+  history: string // comma-separated, oldest first
+  // Motion
+  easing: EasingPreset | 'spring'
+  durationMs: number // 0 = scale with distance
+  stiffness: number
+  damping: number
+  waveform: Waveform
+  periodMs: number
+  animateOnMount: boolean
+  reducedMotion: ReducedMotionSetting
+  // Accessibility
+  role: 'meter' | 'progressbar'
+  announce: 'off' | 'polite' | 'assertive'
+  tooltip: boolean
+}
+
+export const defaultPlaygroundState: PlaygroundState = {
+  startValue: 0,
+  endValue: 54,
+  min: 0,
+  max: 100,
+  perpetual: false,
+  interactive: false,
+  step: 1,
+  status: 'ready',
+  statusMessage: '',
+  label: '',
+  subLabel: '',
+  unit: '%',
+  decimals: 0,
+  compact: false,
+  locale: '',
+  direction: 'ltr',
+  type: 'free',
+  theme: 'type',
+  needleColor: '',
+  size: 300,
+  fill: false,
+  renderer: 'svg',
+  startAngle: -104,
+  endAngle: 104,
+  variant: 'needle',
+  needle: 'auto',
+  segmentCount: 10,
+  segmentGap: 3,
+  zones: false,
+  zoneMode: 'track',
+  scale: false,
+  majorTicks: 5,
+  minorTicks: 0,
+  scalePlacement: 'inside',
+  markers: false,
+  legend: false,
+  showPrevious: false,
+  previousValue: 48,
+  history: '',
+  easing: 'irregular',
+  durationMs: 0,
+  stiffness: 170,
+  damping: 26,
+  waveform: 'sine',
+  periodMs: 5200,
+  animateOnMount: true,
+  reducedMotion: 'system',
+  role: 'meter',
+  announce: 'off',
+  tooltip: false,
+}
+
+// Allowed values for the string unions; anything else in a shared link falls back to the default
+export const playgroundOptions = {
+  status: ['ready', 'loading', 'empty', 'error', 'stale'],
+  direction: ['ltr', 'rtl'],
+  type: ['free', 'pro'],
+  theme: ['type', 'dark'],
+  renderer: ['svg', 'canvas'],
+  variant: ['needle', 'arc', 'segmented'],
+  needle: ['auto', 'show', 'hide'],
+  zoneMode: ['track', 'progress'],
+  scalePlacement: ['inside', 'outside'],
+  easing: ['irregular', 'easeOut', 'linear', 'overshoot', 'spring'],
+  waveform: ['sine', 'triangle', 'jitter'],
+  reducedMotion: ['system', 'always', 'never'],
+  role: ['meter', 'progressbar'],
+  announce: ['off', 'polite', 'assertive'],
+} as const satisfies Partial<Record<keyof PlaygroundState, readonly string[]>>
+
+export const localeOptions = ['', 'en-US', 'de', 'fr', 'tr', 'ar-EG', 'hi-IN', 'ja'] as const
+
+const at = (state: PlaygroundState, fraction: number) =>
+  Math.round((state.min + (state.max - state.min) * fraction) * 1000) / 1000
+
+// Sample zones and markers scale with the domain so they stay meaningful for any min/max
+const sampleZones = (state: PlaygroundState): GaugeZone[] => [
+  { from: state.min, to: at(state, 0.4), color: '#ef4444', label: 'danger' },
+  { from: at(state, 0.4), to: at(state, 0.75), color: '#f59e0b', label: 'warn' },
+  { from: at(state, 0.75), to: state.max, color: '#10b981', label: 'ok' },
+]
+
+const sampleMarkers = (state: PlaygroundState): GaugeMarker[] => [
+  { value: at(state, 0.48), label: 'Median', color: '#6366f1' },
+  { value: at(state, 0.8), label: 'Goal', color: '#f59e0b', style: 'triangle' },
+]
+
+export const parseHistory = (history: string): number[] =>
+  history
+    .split(',')
+    .map((part) => part.trim())
+    .filter((part) => part !== '' && Number.isFinite(Number(part)))
+    .map(Number)
+
+const toAnimation = (state: PlaygroundState): SpeedometerAnimation | undefined => {
+  const d = defaultPlaygroundState
+  const perpetual =
+    state.waveform !== d.waveform || state.periodMs !== d.periodMs
+      ? { waveform: state.waveform, periodMs: state.periodMs }
+      : {}
+  if (state.easing === 'spring') {
+    const spring = {
+      ...(state.stiffness !== d.stiffness ? { stiffness: state.stiffness } : {}),
+      ...(state.damping !== d.damping ? { damping: state.damping } : {}),
+    }
+    return Object.keys(spring).length || Object.keys(perpetual).length
+      ? { type: 'spring', ...spring, ...perpetual }
+      : 'spring'
+  }
+  if (state.durationMs > 0 || Object.keys(perpetual).length) {
+    return {
+      ...(state.easing !== d.easing ? { easing: state.easing } : {}),
+      ...(state.durationMs > 0 ? { durationMs: state.durationMs } : {}),
+      ...perpetual,
+    }
+  }
+  return state.easing !== d.easing ? state.easing : undefined
+}
+
+// The data props for a state, leaving out anything at the component's default so the snippet stays short
+export const toSpeedometerProps = (state: PlaygroundState): SpeedometerV2Props => {
+  const d = defaultPlaygroundState
+  const props: SpeedometerV2Props = {}
+  const set = <K extends keyof SpeedometerV2Props>(key: K, value: SpeedometerV2Props[K], skip = false) => {
+    if (!skip) props[key] = value
+  }
+
+  if (state.interactive) {
+    set('interactive', true)
+    set('value', state.endValue)
+    set('step', state.step, state.step === d.step)
+  } else {
+    set('startValue', state.startValue)
+    set('endValue', state.endValue)
+    set('perpetual', true, !state.perpetual)
+  }
+  set('status', state.status, state.status === d.status)
+  set('statusMessage', state.statusMessage, state.statusMessage === '' || (state.status !== 'error' && state.status !== 'stale'))
+  set('min', state.min, state.min === d.min)
+  set('max', state.max, state.max === d.max)
+  set('type', state.type, state.type === d.type)
+  set('label', state.label, state.label === '')
+  set('subLabel', state.subLabel, state.subLabel === '')
+  set('unit', state.unit, state.unit === d.unit)
+  set('decimals', state.decimals, state.decimals === d.decimals)
+  set('numberFormat', { notation: 'compact', maximumFractionDigits: 1 }, !state.compact)
+  set('locale', state.locale, state.locale === '')
+  set('direction', state.direction, state.direction === d.direction)
+
+  // The dark preset comes from a SpeedometerThemeProvider around the gauge, so overrides layer on top of it
+  set('theme', { needle: state.needleColor, needleCap: state.needleColor }, state.needleColor === '')
+  set('size', state.fill ? 'fill' : state.size, !state.fill && state.size === d.size)
+  set('renderer', state.renderer, state.renderer === d.renderer)
+
+  set('startAngle', state.startAngle, state.startAngle === d.startAngle)
+  set('endAngle', state.endAngle, state.endAngle === d.endAngle)
+  set('variant', state.variant, state.variant === d.variant)
+  set('needle', state.needle === 'show', state.needle === 'auto')
+  if (state.variant === 'segmented' && (state.segmentCount !== d.segmentCount || state.segmentGap !== d.segmentGap)) {
+    set('segments', { count: state.segmentCount, gap: state.segmentGap })
+  }
+
+  set('zones', sampleZones(state), !state.zones)
+  set('zoneMode', state.zoneMode, !state.zones || state.zoneMode === d.zoneMode)
+  if (state.scale) {
+    set('scale', {
+      ...(state.majorTicks !== d.majorTicks ? { majorTicks: state.majorTicks } : {}),
+      ...(state.minorTicks !== d.minorTicks ? { minorTicks: state.minorTicks } : {}),
+      ...(state.scalePlacement !== d.scalePlacement ? { placement: state.scalePlacement } : {}),
+    })
+  }
+  set('markers', sampleMarkers(state), !state.markers)
+  set('legend', true, !state.legend)
+
+  set('previousValue', state.previousValue, !state.showPrevious)
+  const history = parseHistory(state.history)
+  set('history', history, history.length === 0)
+
+  const animation = toAnimation(state)
+  set('animation', animation, animation === undefined)
+  set('animateOnMount', false, state.animateOnMount)
+  set('reducedMotion', state.reducedMotion, state.reducedMotion === d.reducedMotion)
+  set('role', state.role, state.role === d.role)
+  set('announce', state.announce, state.announce === d.announce)
+  set('tooltip', true, !state.tooltip)
+  return props
+}
+
+// Short human summary, e.g. "Free • Perpetual (30 ↔ 70%)" or "Pro • Static (83%) • error";
+// gallery titles come from this so they can't drift
+export const describeState = (state: PlaygroundState): string => {
+  const kind = state.type === 'pro' ? 'Pro' : 'Free'
+  const mode = state.interactive ? 'Input' : state.perpetual ? 'Perpetual' : 'Static'
+  const unit = state.unit === '%' ? '%' : ` ${state.unit}`.trimEnd()
+  const range = state.perpetual && !state.interactive ? `${state.startValue} ↔ ${state.endValue}` : `${state.endValue}`
+  const status = state.status === 'ready' ? '' : ` • ${state.status}`
+  return `${kind} • ${mode} (${range}${unit})${status}`
+}
+
+// Query string with only the fields that differ from the defaults, e.g. "?endValue=83&type=pro"
+export const encodePlaygroundState = (state: PlaygroundState): string => {
+  const params = new URLSearchParams()
+  for (const key of Object.keys(defaultPlaygroundState) as (keyof PlaygroundState)[]) {
+    const value = state[key]
+    if (value === defaultPlaygroundState[key]) continue
+    params.set(key, typeof value === 'boolean' ? (value ? '1' : '0') : String(value))
+  }
+  const query = params.toString()
+  return query ? `?${query}` : ''
+}
+
+// Inverse of encodePlaygroundState; unknown keys and malformed values are ignored
+export const decodePlaygroundState = (search: string): PlaygroundState => {
+  const params = new URLSearchParams(search)
+  const state: Record<string, unknown> = { ...defaultPlaygroundState }
+  for (const [key, fallback] of Object.entries(defaultPlaygroundState)) {
+    const raw = params.get(key)
+    if (raw === null) continue
+    if (typeof fallback === 'number') {
+      const n = Number(raw)
+      if (raw.trim() !== '' && Number.isFinite(n)) state[key] = n
+    } else if (typeof fallback === 'boolean') {
+      if (raw === '1' || raw === '0') state[key] = raw === '1'
+    } else {
+      const allowed = (playgroundOptions as Partial<Record<string, readonly string[]>>)[key]
+      if (!allowed || allowed.includes(raw)) state[key] = raw
+    }
+  }
+  return state as unknown as PlaygroundState
+}
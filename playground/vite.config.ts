@@ -0,0 +1,16 @@
+import { fileURLToPath } from 'node:url'
+import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+
+const source = (file: string) => fileURLToPath(new URL(`../src/${file}`, import.meta.url))
+
+// The playground imports the package by name, resolved to the library source so edits hot-reload
+export default defineConfig({
+  plugins: [react()],
+  resolve: {
+    alias: [
+      { find: /^speedometer-component$/, replacement: source('index.ts') },
+      { find: /^speedometer-component\/(geometry|themes|svg)$/, replacement: source('$1.ts') },
+    ],
+  },
+})
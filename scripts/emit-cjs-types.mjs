@@ -0,0 +1,21 @@
+// Finishes the declaration files after `tsc -p tsconfig.build.json`. tsc keeps the extensionless relative
+// imports from the sources, which Node16/NodeNext resolution rejects, and the package is "type": "module",
+// so every .d.ts reads as ESM. This adds ".js" to the imports of the ESM typings and writes a .d.cts twin
+// (importing ".cjs") next to each file for `require` consumers.
+import { readdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const typesDir = fileURLToPath(new URL('../dist/types/', import.meta.url))
+const relativeImport = /((?:from|import)\s*\(?\s*["'])(\.{1,2}\/[^"']+)(["'])/g
+
+const withExtension = (source, extension) =>
+  source.replace(relativeImport, (_, head, path, quote) => `${head}${path}${extension}${quote}`)
+
+for (const entry of readdirSync(typesDir, { recursive: true })) {
+  if (!entry.endsWith('.d.ts')) continue
+  const file = join(typesDir, entry)
+  const source = readFileSync(file, 'utf8')
+  writeFileSync(file, withExtension(source, '.js'))
+  writeFileSync(file.replace(/\.d\.ts$/, '.d.cts'), withExtension(source, '.cjs'))
+}
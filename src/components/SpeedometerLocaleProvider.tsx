@@ -0,0 +1,12 @@
+import type { ReactNode } from "react";
+import { SpeedometerLocaleContext, type SpeedometerLocaleSettings } from "./speedometerI18n";
+
+export interface SpeedometerLocaleProviderProps extends SpeedometerLocaleSettings {
+  children?: ReactNode;
+}
+
+// Sets locale, translated default strings and text direction for all SpeedometerV2 instances in the subtree;
+// a gauge's own `locale`, `messages` and `direction` props still win
+export default function SpeedometerLocaleProvider({ children, ...settings }: SpeedometerLocaleProviderProps) {
+  return <SpeedometerLocaleContext.Provider value={settings}>{children}</SpeedometerLocaleContext.Provider>;
+}
@@ -0,0 +1,12 @@
+import type { ReactNode } from "react";
+import { SpeedometerThemeContext, type SpeedometerThemeInput } from "./speedometerThemes";
+
+export interface SpeedometerThemeProviderProps {
+  theme: SpeedometerThemeInput; // preset name or overrides applied to every gauge below
+  children?: ReactNode;
+}
+
+// Sets a default theme for all SpeedometerV2 instances in the subtree; a gauge's own `theme` prop still wins
+export default function SpeedometerThemeProvider({ theme, children }: SpeedometerThemeProviderProps) {
+  return <SpeedometerThemeContext.Provider value={theme}>{children}</SpeedometerThemeContext.Provider>;
+}
@@ -0,0 +1,358 @@
+import { createRef } from "react";
+import { hydrateRoot } from "react-dom/client";
+import { renderToString } from "react-dom/server";
+import { act, cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import SpeedometerV2, { type SpeedometerV2Handle } from "./SpeedometerV2";
+
+// The shared frame scheduler runs on requestAnimationFrame and reads performance.now(); faking both makes
+// every frame land on a 16ms boundary
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["requestAnimationFrame", "cancelAnimationFrame", "performance"] });
+});
+
+afterEach(() => {
+  cleanup();
+  vi.runOnlyPendingTimers(); // let the scheduler see its queue is empty before the real timers return
+  vi.useRealTimers();
+});
+
+const advance = (ms: number) => act(() => vi.advanceTimersByTime(ms));
+
+describe("one-shot animation", () => {
+  it("starts with the initial boost and eases to endValue", () => {
+    const onValueChange = vi.fn();
+    const onAnimationEnd = vi.fn();
+    render(<SpeedometerV2 startValue={10} endValue={60} onValueChange={onValueChange} onAnimationEnd={onAnimationEnd} />);
+
+    // Boost of min(6, 12% of the 50 point distance) before the first frame
+    expect(onValueChange).toHaveBeenCalledTimes(1);
+    expect(onValueChange).toHaveBeenLastCalledWith(16);
+
+    advance(600);
+    const midway = onValueChange.mock.lastCall?.[0];
+    expect(midway).toBeGreaterThan(16);
+    expect(midway).toBeLessThan(60);
+    expect(onAnimationEnd).not.toHaveBeenCalled();
+
+    advance(700); // 50 points at 24ms each
+    expect(onValueChange).toHaveBeenLastCalledWith(60);
+    expect(onAnimationEnd).toHaveBeenCalledExactlyOnceWith(60);
+  });
+
+  it("never moves backwards with the easeOut preset", () => {
+    const values: number[] = [];
+    render(<SpeedometerV2 startValue={0} endValue={100} animation="easeOut" onValueChange={(v) => values.push(v)} />);
+    advance(2600);
+    expect(values[0]).toBe(0);
+    expect(values.at(-1)).toBe(100);
+    expect(values.every((v, i) => i === 0 || v >= values[i - 1])).toBe(true);
+  });
+
+  it("jumps straight to endValue with reduced motion", () => {
+    const onValueChange = vi.fn();
+    const onAnimationStart = vi.fn();
+    render(
+      <SpeedometerV2
+        startValue={10}
+        endValue={70}
+        reducedMotion="always"
+        onValueChange={onValueChange}
+        onAnimationStart={onAnimationStart}
+      />
+    );
+    expect(onValueChange).toHaveBeenCalledExactlyOnceWith(70);
+    advance(1000);
+    expect(onValueChange).toHaveBeenCalledOnce();
+    expect(onAnimationStart).not.toHaveBeenCalled();
+  });
+
+  it("mounts on endValue without animating when animateOnMount is false", () => {
+    const onAnimationStart = vi.fn();
+    const { container } = render(
+      <SpeedometerV2 startValue={10} endValue={70} animateOnMount={false} onAnimationStart={onAnimationStart} />
+    );
+    advance(1000);
+    expect(onAnimationStart).not.toHaveBeenCalled();
+    expect(container.textContent).toContain("70");
+  });
+});
+
+describe("perpetual sway", () => {
+  it("follows a sine between the bounds", () => {
+    const onValueChange = vi.fn();
+    render(
+      <SpeedometerV2
+        startValue={20}
+        endValue={80}
+        perpetual
+        animation={{ easing: "linear", waveform: "sine", periodMs: 1000 }}
+        onValueChange={onValueChange}
+      />
+    );
+    advance(256); // quarter period, rounded up to a frame
+    expect(onValueChange.mock.lastCall?.[0]).toBeCloseTo(80, 0);
+    advance(496);
+    expect(onValueChange.mock.lastCall?.[0]).toBeCloseTo(20, 0);
+  });
+
+  it("resumes from the same phase after pause and play", () => {
+    const ref = createRef<SpeedometerV2Handle>();
+    const onValueChange = vi.fn();
+    render(
+      <SpeedometerV2
+        ref={ref}
+        startValue={0}
+        endValue={100}
+        perpetual
+        animation={{ waveform: "triangle", periodMs: 1000 }}
+        onValueChange={onValueChange}
+      />
+    );
+    advance(128);
+    act(() => ref.current?.pause());
+    const paused = ref.current?.getValue();
+    advance(2000);
+    expect(ref.current?.getValue()).toBe(paused);
+    act(() => ref.current?.play());
+    advance(16);
+    expect(ref.current?.getValue()).toBeGreaterThan(paused ?? 100);
+  });
+});
+
+describe("imperative handle", () => {
+  it("resolves animateTo when the needle arrives", async () => {
+    const ref = createRef<SpeedometerV2Handle>();
+    render(<SpeedometerV2 ref={ref} endValue={30} animateOnMount={false} />);
+    let finished: boolean | undefined;
+    act(() => {
+      void ref.current?.animateTo(90, { durationMs: 400 }).then((done) => (finished = done));
+    });
+    advance(416);
+    await act(async () => {});
+    expect(finished).toBe(true);
+    expect(ref.current?.getValue()).toBe(90);
+  });
+
+  it("resolves an interrupted animateTo with false", async () => {
+    const ref = createRef<SpeedometerV2Handle>();
+    render(<SpeedometerV2 ref={ref} endValue={30} animateOnMount={false} />);
+    let finished: boolean | undefined;
+    act(() => {
+      void ref.current?.animateTo(90, { durationMs: 400 }).then((done) => (finished = done));
+    });
+    advance(160);
+    act(() => ref.current?.pause());
+    await act(async () => {});
+    expect(finished).toBe(false);
+    expect(ref.current?.getValue()).toBeGreaterThan(30);
+    expect(ref.current?.getValue()).toBeLessThan(90);
+  });
+});
+
+describe("status", () => {
+  it("shows a dash instead of 0% when the value is NaN", () => {
+    const { container } = render(<SpeedometerV2 endValue={NaN} />);
+    const svg = container.querySelector("svg")!;
+    expect(container.textContent).toContain("—");
+    expect(container.textContent).not.toContain("0%");
+    expect(svg.getAttribute("aria-valuenow")).toBeNull();
+    expect(svg.getAttribute("aria-valuetext")).toBe("No data");
+    expect(container.querySelector("line")).toBeNull(); // no needle
+  });
+
+  it("marks loading as busy and draws no value", () => {
+    const { container } = render(<SpeedometerV2 endValue={40} status="loading" />);
+    const svg = container.querySelector("svg")!;
+    expect(svg.getAttribute("aria-busy")).toBe("true");
+    expect(svg.getAttribute("aria-valuetext")).toBe("Loading");
+    expect(svg.querySelector("animate")).not.toBeNull();
+    expect(container.textContent).not.toContain("40");
+  });
+
+  it("puts the error message in the subLabel line", () => {
+    const { container } = render(<SpeedometerV2 endValue={40} status="error" statusMessage="Backend unreachable" />);
+    expect(container.querySelector("desc")?.textContent).toBe("Backend unreachable");
+    expect(container.textContent).toContain("—");
+    expect(container.textContent).not.toContain("40");
+  });
+
+  it("keeps the value when stale and says when it was last updated", () => {
+    const lastUpdated = new Date(2024, 0, 2, 15, 4);
+    const { container } = render(
+      <SpeedometerV2 endValue={40} animateOnMount={false} status="stale" lastUpdated={lastUpdated} locale="en-US" />
+    );
+    expect(container.textContent).toContain("40");
+    expect(container.querySelector("desc")?.textContent).toMatch(/^Last updated 1\/2\/24, 3:04\sPM$/);
+    expect(container.querySelector("line")?.closest("g")?.getAttribute("opacity")).toBe("0.4");
+  });
+
+  it("keeps the timestamp out of server markup so hydration matches", async () => {
+    const element = <SpeedometerV2 endValue={40} animateOnMount={false} status="stale" lastUpdated={0} />;
+    const html = renderToString(element);
+    expect(html).toContain("Data may be out of date");
+    expect(html).not.toContain("Last updated");
+
+    const container = document.createElement("div");
+    container.innerHTML = html;
+    const onRecoverableError = vi.fn();
+    let root: ReturnType<typeof hydrateRoot> | undefined;
+    await act(async () => {
+      root = hydrateRoot(container, element, { onRecoverableError });
+    });
+    expect(onRecoverableError).not.toHaveBeenCalled();
+    expect(container.querySelector("desc")?.textContent).toMatch(/^Last updated /);
+    act(() => root?.unmount());
+  });
+});
+
+describe("input mode", () => {
+  it("steps from the value prop when the parent doesn't apply onChange", () => {
+    const onChange = vi.fn();
+    render(<SpeedometerV2 value={50} interactive onChange={onChange} />);
+    const slider = screen.getByRole("slider");
+    fireEvent.keyDown(slider, { key: "ArrowUp" });
+    fireEvent.keyDown(slider, { key: "ArrowUp" });
+    expect(onChange.mock.calls).toEqual([[51], [51]]);
+    expect(slider.getAttribute("aria-valuenow")).toBe("50");
+  });
+
+  it("steps from its own value when uncontrolled", () => {
+    const onChange = vi.fn();
+    render(<SpeedometerV2 endValue={50} interactive onChange={onChange} />);
+    const slider = screen.getByRole("slider");
+    fireEvent.keyDown(slider, { key: "ArrowUp" });
+    fireEvent.keyDown(slider, { key: "ArrowUp" });
+    expect(onChange.mock.calls).toEqual([[51], [52]]);
+    expect(slider.getAttribute("aria-valuenow")).toBe("52");
+  });
+});
+
+describe("tooltips", () => {
+  const zones = [
+    { from: 0, to: 40, color: "#ef4444", label: "danger" },
+    { from: 40, to: 100, color: "#10b981", label: "ok" },
+  ];
+
+  it("shows the exact value when the number is focused", () => {
+    const { container } = render(<SpeedometerV2 endValue={83.456} animateOnMount={false} label="SLA" tooltip />);
+    expect(container.textContent).toContain("83");
+    expect(screen.queryByRole("tooltip")).toBeNull();
+
+    const number = container.querySelector<SVGPathElement>('path[tabindex="0"]')!; // the number comes first
+    act(() => number.focus());
+    expect(screen.getByRole("tooltip").textContent).toBe("SLA83.456%");
+    expect(number.getAttribute("aria-describedby")).toBe(screen.getByRole("tooltip").id);
+
+    fireEvent.keyDown(number, { key: "Escape" });
+    expect(screen.queryByRole("tooltip")).toBeNull();
+  });
+
+  it("shows the range and label of a hovered zone", () => {
+    render(<SpeedometerV2 endValue={62} animateOnMount={false} zones={zones} tooltip />);
+    fireEvent.pointerOver(screen.getByLabelText("danger"));
+    expect(screen.getByRole("tooltip").textContent).toBe("danger0–40%");
+    fireEvent.pointerOut(screen.getByLabelText("danger"));
+    expect(screen.queryByRole("tooltip")).toBeNull();
+  });
+
+  it("passes the target to renderTooltip", () => {
+    const renderTooltip = vi.fn(() => "custom");
+    render(<SpeedometerV2 endValue={62} animateOnMount={false} zones={zones} renderTooltip={renderTooltip} />);
+    act(() => screen.getByLabelText("ok").focus());
+    expect(screen.getByRole("tooltip").textContent).toBe("custom");
+    expect(renderTooltip).toHaveBeenLastCalledWith(
+      expect.objectContaining({ target: { kind: "zone", zone: zones[1], index: 1 }, title: "ok", text: "40–100%" })
+    );
+  });
+
+  it("keeps tooltip stops outside the slider and leaves value keys to it", () => {
+    const onChange = vi.fn();
+    render(<SpeedometerV2 value={50} interactive zones={zones} tooltip onChange={onChange} />);
+    const zone = screen.getByLabelText("danger");
+    expect(zone.closest('[role="slider"]')).toBeNull();
+    act(() => zone.focus());
+    fireEvent.keyDown(zone, { key: "ArrowUp" });
+    fireEvent.keyDown(zone, { key: "End" });
+    expect(onChange).not.toHaveBeenCalled();
+    fireEvent.keyDown(screen.getByRole("slider"), { key: "ArrowUp" });
+    expect(onChange).toHaveBeenCalledExactlyOnceWith(51);
+  });
+
+  it("passes pointer input through the hit areas to a canvas gauge", () => {
+    vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue(null);
+    const onChange = vi.fn();
+    render(<SpeedometerV2 value={80} interactive renderer="canvas" zones={zones} tooltip onChange={onChange} />);
+    const zone = screen.getByLabelText("danger");
+    const overlay = zone.closest("svg")!;
+    overlay.getBoundingClientRect = () => new DOMRect(0, 0, 300, 210);
+    overlay.setPointerCapture = () => {};
+    // Straight up from the hub (150, 156) is the middle of the default sweep
+    fireEvent.pointerDown(zone, { button: 0, pointerId: 1, clientX: 150, clientY: 40 });
+    expect(onChange).toHaveBeenCalledExactlyOnceWith(50);
+  });
+
+  it("stays off by default", () => {
+    const { container } = render(<SpeedometerV2 endValue={62} animateOnMount={false} zones={zones} />);
+    expect(container.querySelector("[tabindex]")).toBeNull();
+  });
+});
+
+describe("live source accessibility", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({
+      toFake: ["requestAnimationFrame", "cancelAnimationFrame", "performance", "setTimeout", "clearTimeout"],
+    });
+  });
+
+  it("reports the latest sample at a throttled rate and lets announcements settle", () => {
+    let emit: (value: number) => void = () => {};
+    const source = (listener: (value: number) => void) => {
+      emit = listener;
+      return () => {};
+    };
+    const { container } = render(<SpeedometerV2 source={source} announce="polite" label="CPU" />);
+    const svg = container.querySelector("svg")!;
+    const region = container.querySelector("[aria-live]")!;
+    const initialAnnouncement = region.textContent;
+
+    act(() => emit(10));
+    expect(svg.getAttribute("aria-valuenow")).toBe("10"); // the first sample goes out right away
+    for (let i = 0; i < 20; i++) {
+      act(() => emit(20 + i));
+      advance(16);
+    }
+    expect(svg.getAttribute("aria-valuenow")).toBe("10");
+    expect(region.textContent).toBe(initialAnnouncement);
+
+    advance(700); // one second after the first sample
+    expect(svg.getAttribute("aria-valuenow")).toBe("39");
+    advance(2000);
+    expect(region.textContent).toBe("CPU: 39%");
+  });
+});
+
+describe("server rendering", () => {
+  it("formats in en-US without a locale, whatever the runtime default", () => {
+    const NativeNumberFormat = Intl.NumberFormat;
+    const numberFormat = vi.spyOn(Intl, "NumberFormat").mockImplementation(function (
+      locales?: Intl.LocalesArgument,
+      options?: Intl.NumberFormatOptions
+    ) {
+      return new NativeNumberFormat(locales ?? "de", options); // a server whose default locale is German
+    } as unknown as typeof Intl.NumberFormat);
+    try {
+      const html = renderToString(<SpeedometerV2 endValue={1234.5} max={2000} decimals={1} animateOnMount={false} />);
+      expect(html).toContain("1,234.5");
+    } finally {
+      numberFormat.mockRestore();
+    }
+  });
+});
+
+describe("render slots", () => {
+  it("hides the needle when renderNeedle returns nothing", () => {
+    const { container } = render(<SpeedometerV2 endValue={40} animateOnMount={false} renderNeedle={() => null} />);
+    expect(container.querySelector("line")).toBeNull();
+  });
+});
@@ -1,526 +1,2164 @@
-import { useEffect, useMemo, useRef, useState, useId } from "react";
+import {
+  type KeyboardEvent,
+  type PointerEvent,
+  useContext,
+  useEffect,
+  useId,
+  useImperativeHandle,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+  type ReactNode,
+  type Ref,
+  type RefObject,
+} from "react";
 
-type GaugeType = "pro" | "free";
+import {
+  resolveSpeedometerTheme,
+  sampleGradient,
+  useSpeedometerTheme,
+  type GaugeType,
+  type SpeedometerTheme,
+  type SpeedometerThemeInput,
+} from "./speedometerThemes";
+import {
+  createWaveformSampler,
+  isSpringSettled,
+  resolveAnimation,
+  stepSpring,
+  type SpeedometerAnimation,
+} from "./speedometerAnimation";
+import {
+  resolveLiveOptions,
+  stepCriticallyDamped,
+  stepEma,
+  subscribeToSource,
+  type LiveOptions,
+  type LiveSource,
+} from "./speedometerLive";
+import { StaticRenderContext } from "./speedometerRenderContext";
+import { cancelFrame, requestFrame, setFrameOwnerPaused, type FrameOwner } from "./speedometerScheduler";
+import { drawSpeedometer, type CanvasScene } from "./speedometerCanvas";
+import {
+  defaultSpeedometerMessages,
+  resolvePercentAffixes,
+  useSpeedometerLocale,
+  type SpeedometerDirection,
+  type SpeedometerMessages,
+} from "./speedometerI18n";
+import {
+  buildArcPath,
+  buildRingWedgePathFromAngles,
+  clampPercentage,
+  clampValue,
+  layoutArc,
+  mapAngleToPercent,
+  mapPercentToAngle,
+  percentToValue,
+  polarPoint,
+  valueToPercent,
+} from "./speedometerGeometry";
+
+// Reference width the layout constants below are tuned for; other sizes scale proportionally
+const BASE_WIDTH = 300;
+
+export interface ValueFormatContext {
+  min: number;
+  max: number;
+  percent: number; // position of the value within [min, max], 0 - 100
+  unit: string;
+}
+
+export type ValueFormatter = (value: number, context: ValueFormatContext) => string;
+
+export interface OutOfRangeReport {
+  prop: "startValue" | "endValue" | "value";
+  value: number; // value as passed in
+  min: number;
+  max: number;
+  clampedTo: number; // value actually drawn
+}
+
+export interface GaugeZone {
+  from: number; // domain value where the band starts
+  to: number; // domain value where the band ends
+  color: string; // any CSS color
+  label?: string; // e.g. "danger", "warn", "ok"
+}
+
+// "track": zones replace the gray track over the full arc
+// "progress": zones are revealed only up to the needle, in place of the gradient
+export type ZoneMode = "track" | "progress";
+
+export interface GaugeScale {
+  majorTicks?: number | number[]; // number of major intervals (default 5) or explicit domain values
+  minorTicks?: number | number[]; // minor subdivisions per major interval or explicit domain values
+  placement?: "inside" | "outside"; // relative to the track (default "inside")
+  showLabels?: boolean; // numeric labels at major ticks (default true)
+  formatLabel?: (value: number) => string; // defaults to the value formatter without unit
+}
+
+export type MarkerStyle = "needle" | "tick" | "triangle";
+
+export interface GaugeMarker {
+  value: number; // domain value
+  color?: string; // defaults to the theme needle color
+  label?: string; // shown in the legend
+  style?: MarkerStyle; // "needle": extra pointer; "tick"/"triangle": marker on the track (default "needle")
+}
+
+// "needle": continuous arc with the needle; "arc": continuous arc only; "segmented": discrete blocks
+export type GaugeVariant = "needle" | "arc" | "segmented";
+
+// What the gauge can say about its data; only "ready" and "stale" show a value
+export type GaugeStatus = "ready" | "loading" | "empty" | "error" | "stale";
+
+export interface GaugeSegments {
+  count?: number; // number of blocks (default 10)
+  gap?: number; // px between blocks along the track, at 300px wide (default 3)
+  cornerRadius?: number; // px at 300px wide (default 2)
+  colors?: string[] | ((index: number, count: number) => string); // lit color per block; defaults to zones, then the theme gradient
+}
+
+// Computed layout handed to the render slots (px in svg user units, angles in degrees clockwise from 12 o'clock)
+export interface GaugeGeometry {
+  width: number;
+  height: number; // gauge area, without the legend
+  scale: number; // width / 300; multiply design sizes by this
+  centerX: number; // hub
+  centerY: number;
+  outerRadius: number; // outer edge of the track
+  trackRadius: number; // track centerline
+  trackWidth: number;
+  innerRadius: number; // backdrop behind the text
+  startAngle: number; // where `min` sits
+  endAngle: number; // where `max` sits
+}
+
+interface SlotContext {
+  geometry: GaugeGeometry;
+  theme: SpeedometerTheme;
+  value: number; // displayed value in domain units (follows the animation)
+  percent: number; // 0..100 of the domain
+  status: GaugeStatus;
+}
+
+export interface CenterSlotProps extends SlotContext {
+  x: number; // default anchor of the big number (text middle)
+  y: number;
+  formattedValue: string; // number as the default formatter renders it, without unit
+  unit: string;
+}
+
+export interface LabelSlotProps extends SlotContext {
+  x: number;
+  y: number; // default label line
+  subLabelY: number; // default subLabel line
+  label: string; // after defaults are applied
+  subLabel: string;
+}
+
+export interface NeedleSlotProps extends SlotContext {
+  angle: number; // current needle angle; the slot is already rotated by it
+  length: number; // default needle length from the hub
+  color: string;
+}
+
+// What the pointer or keyboard focus is on: the needle or number, a zone, a segmented block or a marker
+export type GaugeTooltipTarget =
+  | { kind: "value"; value: number } // exact reading in domain units, before clamping and rounding
+  | { kind: "zone"; zone: GaugeZone; index: number }
+  | { kind: "segment"; index: number; from: number; to: number; label?: string } // block range in domain units
+  | { kind: "marker"; marker: GaugeMarker; index: number };
+
+export interface TooltipSlotProps extends SlotContext {
+  target: GaugeTooltipTarget;
+  x: number; // anchor on the arc in SVG px; the tooltip box sits above it
+  y: number;
+  title?: string; // default first line (label of the gauge, zone or marker)
+  text: string; // default second line: exact value or range, with unit
+}
+
+// "system" follows prefers-reduced-motion; "always"/"never" force it
+export type ReducedMotionSetting = "system" | "always" | "never";
+
+export interface AnimateToOptions {
+  durationMs?: number; // tween only; default follows the `animation` prop
+  from?: number; // domain value to start from (default: current needle value)
+}
+
+// Imperative handle exposed through `ref`
+export interface SpeedometerV2Handle {
+  play(): void; // perpetual: resume the sway; static: animate to endValue (replays from startValue if already there)
+  pause(): void; // freeze the needle where it is
+  reset(): void; // stop and put the needle back on startValue
+  animateTo(value: number, options?: AnimateToOptions): Promise<boolean>; // true when finished, false if interrupted
+  getValue(): number; // current needle value in domain units
+  resetPeaks(): void; // live mode: clear the peak-hold markers
+}
 
 export interface SpeedometerV2Props {
-  startValue: number; // 0 - 100
-  endValue: number; // 0 - 100
-  type: GaugeType; // visual style: "pro" | "free"
-  perpetual: boolean; // needle oscillates between start and end when true
+  startValue?: number; // in [min, max] (default min)
+  endValue?: number; // in [min, max] (default min)
+  type?: GaugeType; // base preset and default label: "pro" | "free" (default "free")
+  perpetual?: boolean; // needle oscillates between start and end when true (default false)
   label?: string; // large percentage label context, e.g. "Your score"
   subLabel?: string; // optional secondary line under label
+  min?: number; // lower bound of the value domain (default 0)
+  max?: number; // upper bound of the value domain (default 100)
+  unit?: string; // suffix drawn after the number (default "%"; "" hides it)
+  decimals?: number; // fraction digits for the default formatter (default 0)
+  locale?: string | string[]; // locale(s) for number and percent formatting; wins over SpeedometerLocaleProvider
+  messages?: Partial<SpeedometerMessages>; // translated default label / announcement strings
+  direction?: SpeedometerDirection; // "rtl" mirrors the sweep and lays text out right-to-left (default "ltr")
+  numberFormat?: Intl.NumberFormatOptions; // extra formatter options, e.g. { notation: "compact" }
+  formatValue?: ValueFormatter; // replaces the default formatter; unit is still appended
+  onOutOfRange?: (report: OutOfRangeReport) => void; // defaults to console.warn
+  zones?: GaugeZone[]; // colored threshold bands along the arc
+  zoneMode?: ZoneMode; // default "track"
+  scale?: GaugeScale; // tick marks and scale labels; omitted = no scale
+  size?: number | "fill"; // width in px (default 300), or "fill" to track the container width
+  theme?: SpeedometerThemeInput; // preset name or overrides; wins over SpeedometerThemeProvider
+  role?: "meter" | "progressbar"; // ARIA role exposed on the svg (default "meter")
+  announce?: "off" | "polite" | "assertive"; // live-region announcement of target value changes (default "off")
+  reducedMotion?: ReducedMotionSetting; // default "system"
+  ref?: Ref<SpeedometerV2Handle>;
+  onAnimationStart?: () => void; // one-shot animation or sway (re)started
+  onAnimationEnd?: (value: number) => void; // one-shot animation settled (not fired by perpetual sway)
+  onValueChange?: (value: number) => void; // needle value, at most once per animation frame
+  animation?: SpeedometerAnimation; // easing preset, tween or spring config, perpetual waveform (default "irregular")
+  value?: number; // live mode: the needle follows this value continuously (startValue/endValue/perpetual ignored)
+  source?: LiveSource; // live mode: subscribe to pushed samples instead of passing `value`; keep the reference stable
+  live?: LiveOptions; // smoothing, render rate limit and peak hold for live mode
+  animateOnMount?: boolean; // false: mount on endValue without the one-shot animation, e.g. after SSR (default true)
+  markers?: GaugeMarker[]; // extra needles and target/benchmark markers, e.g. cohort median vs. goal
+  legend?: boolean; // legend row under the gauge for the main needle and labelled markers (default false)
+  interactive?: boolean; // input mode: drag/click/keyboard set the value, role="slider" (default false)
+  step?: number; // input snapping in domain units (default 1)
+  onChange?: (value: number) => void; // input value changed (every drag move / key press)
+  onChangeCommitted?: (value: number) => void; // input finished (pointer released / key press)
+  startAngle?: number; // where `min` sits, degrees clockwise from 12 o'clock (default -104, just below 9 o'clock)
+  endAngle?: number; // where `max` sits (default 104); smaller than startAngle sweeps counterclockwise
+  variant?: GaugeVariant; // default "needle"
+  segments?: GaugeSegments; // block layout for variant="segmented"
+  needle?: boolean; // show the main needle (default: only for variant "needle")
+  previousValue?: number; // earlier reading: ghost marker on the arc + change badge
+  delta?: number; // change badge value; overrides value - previousValue
+  history?: number[]; // recent values, oldest first, drawn as a sparkline under the number
+  renderCenter?: (props: CenterSlotProps) => ReactNode; // replaces the big number, unit and change badge (SVG content)
+  renderLabel?: (props: LabelSlotProps) => ReactNode; // replaces the label and subLabel lines (SVG content)
+  renderNeedle?: (props: NeedleSlotProps) => ReactNode; // main needle shape, drawn pointing up from the hub
+  renderer?: "svg" | "canvas"; // "canvas" paints animation frames without React re-renders (default "svg")
+  status?: GaugeStatus; // data state (default "ready", or "empty" when the value is NaN)
+  statusMessage?: string; // error text, or the stale note; replaces the subLabel line in those states
+  lastUpdated?: Date | number; // time of the last good value, shown by status="stale"
+  tooltip?: boolean; // hover/focus tooltips on the needle, number, zones, blocks and markers (default: on with renderTooltip)
+  renderTooltip?: (props: TooltipSlotProps) => ReactNode; // tooltip content (HTML, inside the positioned box)
 }
 
-const clampPercentage = (value: number): number => {
-  if (Number.isNaN(value)) return 0;
-  if (value < 0) return 0;
-  if (value > 100) return 100;
-  return value;
+
+// Track an element's content width with ResizeObserver (null until first measured)
+const useContainerWidth = (ref: RefObject<HTMLElement | null>, enabled: boolean): number | null => {
+  const [containerWidth, setContainerWidth] = useState<number | null>(null);
+  useEffect(() => {
+    const el = ref.current;
+    if (!enabled || !el || typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver((entries) => {
+      const next = entries[0]?.contentRect.width;
+      // Round so sub-pixel layout jitter doesn't trigger re-renders
+      if (next) setContainerWidth(Math.round(next));
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [ref, enabled]);
+  return containerWidth;
+};
+
+// prefers-reduced-motion as an external store so SSR and hydration agree (false on the server)
+const reducedMotionQuery = "(prefers-reduced-motion: reduce)";
+const subscribeReducedMotion = (onChange: () => void) => {
+  const mql = typeof window !== "undefined" ? window.matchMedia?.(reducedMotionQuery) : undefined;
+  mql?.addEventListener("change", onChange);
+  return () => mql?.removeEventListener("change", onChange);
 };
+const getReducedMotion = () =>
+  typeof window !== "undefined" && (window.matchMedia?.(reducedMotionQuery).matches ?? false);
+const usePrefersReducedMotion = (): boolean =>
+  useSyncExternalStore(subscribeReducedMotion, getReducedMotion, () => false);
 
-const mapPercentToAngle = (percent: number, halfSweepDeg: number = 90): number => {
-  // Map 0..100 to -halfSweep..+halfSweep degrees
-  return -halfSweepDeg + (percent * (2 * halfSweepDeg)) / 100;
+// CSS conic-gradient support as an external store: false on the server and during hydration, real value after
+const subscribeNoop = () => () => {};
+const getSupportsConic = () => {
+  try {
+    // Using background-image ensures broad engines check the right feature
+    return window.CSS?.supports?.("background-image", "conic-gradient(#000, #fff)") ?? false;
+  } catch {
+    return false;
+  }
 };
+const useSupportsConic = (): boolean => useSyncExternalStore(subscribeNoop, getSupportsConic, () => false);
 
-// (Unused) Centered wedge builder kept for reference; prefer the angle-based variant below
-// const buildRingWedgePath = (
-//   cx: number,
-//   cy: number,
-//   innerR: number,
-//   outerR: number,
-//   halfAngleDeg: number
-// ): string => {
-//   const a0 = (-halfAngleDeg * Math.PI) / 180; // start angle (left side)
-//   const a1 = (halfAngleDeg * Math.PI) / 180; // end angle (right side)
-//   const sin0 = Math.sin(a0);
-//   const cos0 = Math.cos(a0);
-//   const sin1 = Math.sin(a1);
-//   const cos1 = Math.cos(a1);
-//   const xo0 = cx + outerR * sin0;
-//   const yo0 = cy - outerR * cos0;
-//   const xo1 = cx + outerR * sin1;
-//   const yo1 = cy - outerR * cos1;
-//   const xi1 = cx + innerR * sin1;
-//   const yi1 = cy - innerR * cos1;
-//   const xi0 = cx + innerR * sin0;
-//   const yi0 = cy - innerR * cos0;
-//   const large = 0;
-//   const sweepOuter = 1;
-//   const sweepInner = 0;
-//   return [
-//     `M ${xo0} ${yo0}`,
-//     `A ${outerR} ${outerR} 0 ${large} ${sweepOuter} ${xo1} ${yo1}`,
-//     `L ${xi1} ${yi1}`,
-//     `A ${innerR} ${innerR} 0 ${large} ${sweepInner} ${xi0} ${yi0}`,
-//     'Z',
-//   ].join(' ');
-// };
-
-// General version: build a ring wedge between explicit angles (degrees)
-const buildRingWedgePathFromAngles = (
-  cx: number,
-  cy: number,
-  innerR: number,
-  outerR: number,
-  startDeg: number,
-  endDeg: number
-): string => {
-  const a0 = (startDeg * Math.PI) / 180;
-  const a1 = (endDeg * Math.PI) / 180;
-  const sin0 = Math.sin(a0);
-  const cos0 = Math.cos(a0);
-  const sin1 = Math.sin(a1);
-  const cos1 = Math.cos(a1);
-
-  const xo0 = cx + outerR * sin0;
-  const yo0 = cy - outerR * cos0;
-  const xo1 = cx + outerR * sin1;
-  const yo1 = cy - outerR * cos1;
-
-  const xi1 = cx + innerR * sin1;
-  const yi1 = cy - innerR * cos1;
-  const xi0 = cx + innerR * sin0;
-  const yi0 = cy - innerR * cos0;
-
-  const large = Math.abs(endDeg - startDeg) > 180 ? 1 : 0;
-  const sweepOuter = endDeg >= startDeg ? 1 : 0; // draw from start -> end along increasing angle
-  const sweepInner = 1 - sweepOuter; // return opposite way
-
-  return [
-    `M ${xo0} ${yo0}`,
-    `A ${outerR} ${outerR} 0 ${large} ${sweepOuter} ${xo1} ${yo1}`,
-    `L ${xi1} ${yi1}`,
-    `A ${innerR} ${innerR} 0 ${large} ${sweepInner} ${xi0} ${yi0}`,
-    'Z',
-  ].join(' ');
+// Live-region text waits for the value to settle, but a steady stream still gets an update every maxWaitMs
+const announceDelayMs = 1000;
+const announceMaxWaitMs = 5000;
+const useSettledText = (text: string, enabled: boolean): string => {
+  const [settled, setSettled] = useState(text);
+  const firstChangeRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!enabled || text === settled) {
+      firstChangeRef.current = null;
+      return;
+    }
+    const now = performance.now();
+    firstChangeRef.current ??= now;
+    const wait = Math.min(announceDelayMs, firstChangeRef.current + announceMaxWaitMs - now);
+    const timer = setTimeout(() => {
+      firstChangeRef.current = null;
+      setSettled(text);
+    }, Math.max(0, wait));
+    return () => clearTimeout(timer);
+  }, [text, settled, enabled]);
+  return enabled ? settled : text;
+};
+
+// Same pattern for text that depends on the runtime's locale or time zone: false on the server and during hydration
+const ssrLocale = "en-US";
+const getHydrated = () => true;
+const useHydrated = (): boolean => useSyncExternalStore(subscribeNoop, getHydrated, () => false);
+
+const visuallyHidden = {
+  position: "absolute",
+  width: 1,
+  height: 1,
+  margin: -1,
+  padding: 0,
+  overflow: "hidden",
+  clip: "rect(0 0 0 0)",
+  whiteSpace: "nowrap",
+  border: 0,
+} as const;
+
+// Status styling: the needle fades out when stale, the track is tinted with the error color
+const staleNeedleOpacity = 0.4;
+const errorTrackOpacity = 0.35;
+
+// Resolve major/minor tick values (domain units) from a count or an explicit list
+const resolveScaleTicks = (
+  scale: GaugeScale,
+  min: number,
+  max: number
+): { major: number[]; minor: number[] } => {
+  const inDomain = (v: number) => v >= min && v <= max;
+  const evenly = (from: number, to: number, intervals: number) => {
+    const n = Math.max(1, Math.floor(intervals));
+    return Array.from({ length: n + 1 }, (_, i) => from + ((to - from) * i) / n);
+  };
+
+  const majorSpec = scale.majorTicks ?? 5;
+  const major = (Array.isArray(majorSpec) ? [...majorSpec] : evenly(min, max, majorSpec))
+    .filter(inDomain)
+    .sort((a, b) => a - b);
+
+  const minorSpec = scale.minorTicks ?? 0;
+  let minor: number[];
+  if (Array.isArray(minorSpec)) {
+    minor = minorSpec.filter(inDomain);
+  } else if (minorSpec > 0) {
+    minor = [];
+    for (let i = 0; i < major.length - 1; i++) {
+      minor.push(...evenly(major[i], major[i + 1], minorSpec + 1).slice(1, -1));
+    }
+  } else {
+    minor = [];
+  }
+  return { major, minor: minor.filter((v) => !major.includes(v)) };
+};
+
+const snapToStep = (value: number, min: number, max: number, step: number): number => {
+  if (!(step > 0)) return clampValue(value, min, max);
+  const snapped = min + Math.round((value - min) / step) * step;
+  // Trim float noise from the multiplication (e.g. 0.30000000000000004)
+  return clampValue(Number(snapped.toFixed(10)), min, max);
 };
 
 export default function SpeedometerV2({
-  startValue,
-  endValue,
-  type,
-  perpetual,
+  min = 0,
+  max = 100,
+  startValue = min,
+  endValue = min,
+  type = "free",
+  perpetual = false,
   label,
   subLabel,
+  unit = "%",
+  decimals = 0,
+  locale: localeProp,
+  messages: messagesProp,
+  direction: directionProp,
+  numberFormat,
+  formatValue,
+  onOutOfRange,
+  zones,
+  zoneMode = "track",
+  scale,
+  size = BASE_WIDTH,
+  theme: themeProp,
+  role = "meter",
+  announce = "off",
+  reducedMotion = "system",
+  ref,
+  onAnimationStart,
+  onAnimationEnd,
+  onValueChange,
+  animation,
+  value: valueProp,
+  source,
+  live: liveProp,
+  animateOnMount = true,
+  markers,
+  legend = false,
+  interactive = false,
+  step = 1,
+  onChange,
+  onChangeCommitted,
+  startAngle,
+  endAngle,
+  variant = "needle",
+  segments,
+  needle: needleProp,
+  previousValue,
+  delta,
+  history,
+  renderCenter,
+  renderLabel,
+  renderNeedle,
+  renderer = "svg",
+  status: statusProp,
+  statusMessage,
+  lastUpdated,
+  tooltip,
+  renderTooltip,
 }: SpeedometerV2Props) {
-  // Layout tuned to resemble the screenshot proportions
-  const width = 300;
-  const baseHeight = 180;
-  const centerX = width / 2;
-  const trackStroke = 14 * 1.5; // thicker arc paths (1.5x), grows inward
-  const arcInsetPx = 16; // used for track centerline inset
-
-  // Droop configuration: how far each end dips below the horizontal
+  const staticRender = useContext(StaticRenderContext);
+  const localeSettings = useSpeedometerLocale();
+  // Without a locale, server markup (and the hydration pass) formats in en-US so it matches on any machine;
+  // the browser's default locale takes over right after hydration
+  const hydrated = useHydrated();
+  const locale = localeProp ?? localeSettings.locale ?? (hydrated ? undefined : ssrLocale);
+  const rtl = (directionProp ?? localeSettings.direction ?? "ltr") === "rtl";
+
+  // Input mode without a `value` prop keeps its own value, starting at endValue
+  const [uncontrolledValue, setUncontrolledValue] = useState<number>(endValue);
+  const value = interactive ? (valueProp ?? uncontrolledValue) : valueProp;
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const containerWidth = useContainerWidth(wrapperRef, size === "fill");
+  const width = size === "fill" ? (containerWidth ?? BASE_WIDTH) : Math.max(1, size);
+  const k = width / BASE_WIDTH; // every pixel constant below is multiplied by this
+
+  // Layout tuned to resemble the screenshot proportions (at 300px wide)
+  const trackStroke = 14 * 1.5 * k; // thicker arc paths (1.5x), grows inward
+  const arcInsetPx = 16 * k; // used for track centerline inset
+
+  // Droop configuration: how far each end dips below the horizontal (default sweep only)
   const droopDeg = 14;
+  // RTL mirrors the sweep across the vertical axis, so `min` sits on the right
+  const mirror = rtl ? -1 : 1;
+  const startDeg = mirror * (startAngle ?? -(90 + droopDeg));
+  // More than one full turn would overlap itself
+  const endDeg = Math.max(startDeg - 360, Math.min(startDeg + 360, mirror * (endAngle ?? 90 + droopDeg)));
+  const sweepDeg = Math.abs(endDeg - startDeg);
+  const clockwise = endDeg >= startDeg;
 
-  // Estimate droop in pixels and expand height so arc isn't clipped
-  // Use width-limited radius so geometry remains stable regardless of height
-  const widthLimitedOuterRadius = centerX - 10;
-  const widthLimitedRadius = widthLimitedOuterRadius - trackStroke / 2;
-  const widthLimitedTrackRadius = widthLimitedRadius - arcInsetPx;
-  const droopRad = (droopDeg * Math.PI) / 180;
-  const droopExtraPx = Math.max(0, widthLimitedTrackRadius * Math.sin(droopRad));
-  const height = baseHeight + Math.ceil(droopExtraPx) + 2; // add space BELOW for droop
-  const centerY = baseHeight - 24; // keep visual anchor fixed; expand canvas downward
-  const outerRadius = widthLimitedOuterRadius; // keep outer edge fixed by width
-  const radius = widthLimitedRadius; // centerline shifted inward so thickness adds inside
+  // Scale ticks/labels: outside placement needs room beyond the track, so shrink the dial
+  const majorTickLength = 8 * k;
+  const minorTickLength = 4 * k;
+  const tickGap = 3 * k; // space between track edge and tick
+  const tickLabelFontSize = 10 * k;
+  const scalePlacement = scale?.placement ?? "inside";
+  const scaleMargin =
+    scale && scalePlacement === "outside"
+      ? tickGap + majorTickLength + ((scale.showLabels ?? true) ? tickLabelFontSize + 8 * k : 0)
+      : 0;
+
+  // Size the dial from the width, then grow the canvas to the arc's extent (drooped ends hang below the hub)
+  const { outerRadius, centerX, centerY, height } = layoutArc(
+    width,
+    startDeg,
+    endDeg,
+    10 * k + scaleMargin,
+    16 * k + scaleMargin,
+    26 * k,
+    trackStroke / 2 + arcInsetPx
+  );
+  const radius = outerRadius - trackStroke / 2; // centerline shifted inward so thickness adds inside
   // White backdrop radius (reduced by 20px to reveal more needle)
-  const innerFillRadius = Math.max(0, radius - trackStroke / 2 - 2 - 12);
+  const innerFillRadius = Math.max(0, radius - trackStroke / 2 - 14 * k);
+
+  const clampedEnd = useMemo(() => valueToPercent(endValue, min, max), [endValue, min, max]);
+  // A NaN start has nowhere to animate from, so the one-shot animation starts on the end value
+  const clampedStart = useMemo(
+    () => (Number.isNaN(startValue) ? clampedEnd : valueToPercent(startValue, min, max)),
+    [startValue, min, max, clampedEnd]
+  );
+
+  // Report (rather than silently clamp) values outside the domain
+  const onOutOfRangeRef = useRef(onOutOfRange);
+  useEffect(() => {
+    onOutOfRangeRef.current = onOutOfRange;
+  });
+  useEffect(() => {
+    const entries = [
+      ["startValue", startValue],
+      ["endValue", endValue],
+      ["value", value],
+    ] as const;
+    for (const [prop, v] of entries) {
+      // NaN is missing data (status "empty"), not out of range
+      if (v === undefined || Number.isNaN(v) || (v >= min && v <= max)) continue;
+      const report: OutOfRangeReport = { prop, value: v, min, max, clampedTo: clampValue(v, min, max) };
+      if (onOutOfRangeRef.current) {
+        onOutOfRangeRef.current(report);
+      } else {
+        console.warn(`SpeedometerV2: ${prop}=${v} is outside [${min}, ${max}]; drawing ${report.clampedTo}`);
+      }
+    }
+  }, [startValue, endValue, value, min, max]);
 
-  const clampedStart = useMemo(() => clampPercentage(startValue), [startValue]);
-  const clampedEnd = useMemo(() => clampPercentage(endValue), [endValue]);
+  const liveMode = value !== undefined || source !== undefined;
 
-  // For static mode, begin at startValue and animate once to endValue
-  const [displayPercent, setDisplayPercent] = useState<number>(clampedStart);
+  // A missing reading (NaN from a failed fetch or parse) is "no data", never a confident 0%
+  const missingValue = liveMode
+    ? value !== undefined && !Number.isFinite(value)
+    : !Number.isFinite(endValue) || (perpetual && !Number.isFinite(startValue));
+  const status: GaugeStatus = missingValue && (statusProp ?? "ready") === "ready" ? "empty" : (statusProp ?? "ready");
+  const showsValue = status === "ready" || status === "stale";
+  // Loading, empty and error screens are SVG only; the canvas renderer covers the states that show a value
+  const canvasMode = renderer === "canvas" && !staticRender && showsValue;
+  // Input mode tracks the pointer directly unless smoothing is asked for
+  const liveOptions = useMemo(
+    () =>
+      resolveLiveOptions(
+        interactive && liveProp?.smoothing === undefined ? { ...liveProp, smoothing: "none" } : liveProp
+      ),
+    [interactive, liveProp]
+  );
+
+  // For static mode, begin at startValue and animate once to endValue; live mode starts on the value.
+  // Standalone SVGs and animateOnMount={false} start on the final value (deterministic for SSR)
+  const initialPercent =
+    value !== undefined
+      ? valueToPercent(value, min, max)
+      : staticRender || !animateOnMount
+        ? clampedEnd
+        : clampedStart;
+  const [displayPercent, setDisplayPercent] = useState<number>(initialPercent);
   const [isAnimating, setIsAnimating] = useState<boolean>(false);
-  
+  const [peaks, setPeaks] = useState<{ low: number; high: number } | null>(null); // live session min/max (percent)
+
   const rafRef = useRef<number | null>(null);
-  const mountedRef = useRef<boolean>(false);
-
-  // Color palettes inspired by the screenshot (left: blue, right: teal/green)
-  const palette = useMemo(() => {
-    return type === "pro"
-      ? {
-          // teal/green gradient
-          gradStart: "#34d399", // emerald-400
-          gradEnd: "#059669", // emerald-600
-          bgArc: "#e5e7eb", // gray-200
-          pointerFill: "#ffffff",
-          pointerStroke: "#111827", // gray-900
-          text: "#111827",
-          subText: "#6b7280", // gray-500
-        }
-      : {
-          // blue gradient
-          gradStart: "#60a5fa", // blue-400
-          gradEnd: "#1d4ed8", // blue-700
-          bgArc: "#e5e7eb",
-          pointerFill: "#ffffff",
-          pointerStroke: "#111827",
-          text: "#111827",
-          subText: "#6b7280",
-        };
-  }, [type]);
+  const displayRef = useRef<number>(initialPercent); // mirrors displayPercent for imperative reads
+  const swayElapsedRef = useRef<number>(0); // sway phase, kept across pause/play
+  const velocityRef = useRef<number>(0); // spring velocity (percent/s), carried across retargets
+  const settleRef = useRef<((finished: boolean) => void) | null>(null); // resolves the running animateTo
+  const liveTargetRef = useRef<number>(initialPercent); // latest live sample (percent)
+  const followingRef = useRef<boolean>(false); // the rAF loop is the live follower
+  const drawFrameRef = useRef<((percent: number) => void) | null>(null); // canvas: paint frames without re-rendering
 
-  // Animate between bounds when perpetual; otherwise one-time animation from start->end
+  const prefersReducedMotion = usePrefersReducedMotion();
+  const reduceMotion = reducedMotion === "always" || (reducedMotion === "system" && prefersReducedMotion);
+
+  // Theme: `type` preset, then the provider's theme, then the prop
+  const contextTheme = useSpeedometerTheme();
+  const theme = useMemo(
+    () => resolveSpeedometerTheme(type, contextTheme, themeProp),
+    [type, contextTheme, themeProp]
+  );
+
+  const resolvedAnimation = useMemo(() => resolveAnimation(animation), [animation]);
+
+  // Latest props for the imperative controls, which are created once
+  const latest = {
+    clampedStart,
+    clampedEnd,
+    perpetual,
+    liveMode,
+    min,
+    max,
+    reduceMotion,
+    animation: resolvedAnimation,
+    live: liveOptions,
+    onAnimationStart,
+    onAnimationEnd,
+    onValueChange,
+  };
+  const latestRef = useRef(latest);
   useEffect(() => {
-    if (!perpetual) {
+    latestRef.current = latest;
+  });
+
+  // Animation controls built on rafRef; shared by the prop-driven effect and the ref handle.
+  // Frames come from the shared scheduler, which holds this gauge's frames while it is off-screen
+  const controls = useMemo(() => {
+    const frameOwner: FrameOwner = { paused: false };
+    const nextFrame = (callback: () => void) => requestFrame(callback, frameOwner);
+
+    // The canvas renderer paints frames directly; React only hears about the final position
+    const setPercent = (percent: number) => {
+      const { min, max, onValueChange } = latestRef.current;
+      displayRef.current = percent;
+      if (drawFrameRef.current) drawFrameRef.current(percent);
+      else setDisplayPercent(percent);
+      onValueChange?.(percentToValue(percent, min, max));
+    };
+    const syncState = () => {
+      if (drawFrameRef.current) setDisplayPercent(displayRef.current);
+    };
+
+    // Cancels the frame loop; spring velocity survives so a retarget continues smoothly
+    const stop = () => {
       if (rafRef.current !== null) {
-        cancelAnimationFrame(rafRef.current);
+        cancelFrame(rafRef.current);
         rafRef.current = null;
       }
-      const from = clampedStart;
-      const to = clampedEnd;
+      settleRef.current?.(false);
+      settleRef.current = null;
+      followingRef.current = false;
+      setIsAnimating(false);
+      syncState();
+    };
+
+    const finish = (to: number, resolve: (finished: boolean) => void) => {
+      const { min, max, onAnimationEnd } = latestRef.current;
+      rafRef.current = null;
+      settleRef.current = null;
+      setIsAnimating(false);
+      syncState();
+      onAnimationEnd?.(percentToValue(to, min, max));
+      resolve(true);
+    };
+
+    // Move from -> to with the configured tween or spring; from = null keeps the current position
+    const animate = (from: number | null, to: number, durationMs?: number): Promise<boolean> => {
+      stop();
+      const { reduceMotion, animation, onAnimationStart } = latestRef.current;
+      if (reduceMotion) {
+        velocityRef.current = 0;
+        setPercent(to);
+        latestRef.current.onAnimationEnd?.(percentToValue(to, latestRef.current.min, latestRef.current.max));
+        return Promise.resolve(true);
+      }
+      const { motion } = animation;
+      return new Promise<boolean>((resolve) => {
+        settleRef.current = resolve;
+        setIsAnimating(true);
+        onAnimationStart?.();
+
+        if (motion.type === "spring") {
+          if (from !== null) {
+            velocityRef.current = 0;
+            setPercent(from);
+          }
+          let state = { position: displayRef.current, velocity: velocityRef.current };
+          let lastTs = performance.now();
+          const step = () => {
+            const now = performance.now();
+            state = stepSpring(state, to, now - lastTs, motion);
+            lastTs = now;
+            if (isSpringSettled(state, to)) {
+              velocityRef.current = 0;
+              setPercent(to);
+              finish(to, resolve);
+              return;
+            }
+            velocityRef.current = state.velocity;
+            setPercent(state.position);
+            rafRef.current = nextFrame(step);
+          };
+          rafRef.current = nextFrame(step);
+          return;
+        }
+
+        const start = from ?? displayRef.current;
+        const duration = durationMs ?? motion.durationFor(to - start);
+        setPercent(start);
+        const startTs = performance.now();
+        const step = () => {
+          const now = performance.now();
+          const t = duration > 0 ? Math.min(1, (now - startTs) / duration) : 1;
+          setPercent(start + (to - start) * motion.easing(t));
+          if (t < 1) {
+            rafRef.current = nextFrame(step);
+          } else {
+            finish(to, resolve);
+          }
+        };
+        rafRef.current = nextFrame(step);
+      });
+    };
+
+    // One-time animation from start->end. Tweens get a small initial boost so they start almost immediately;
+    // springs keep their current position and velocity unless `restart` is set
+    const playStatic = (from: number, to: number, restart: boolean) => {
+      const { motion } = latestRef.current.animation;
+      if (motion.type === "spring") {
+        return animate(restart ? from : null, to);
+      }
       const totalDelta = Math.abs(to - from);
       const sign = to >= from ? 1 : -1;
-      const initialBoost = Math.min(6, totalDelta * 0.12);
-      const boostedStart = from + sign * initialBoost;
-      setDisplayPercent(boostedStart);
-      const delta = Math.abs(to - boostedStart);
-      const perPercentMs = 24;
-      const durationMs = Math.min(2600, Math.max(180, delta * perPercentMs));
-      // Irregular easing: quicker start with a subtle damped wobble
-      const ease = (t: number) => {
-        const fastStart = 1 - Math.pow(1 - t, 2.1); // faster at the beginning
-        const wobble = 0.025 * Math.sin(t * Math.PI * 1.25) * (1 - t); // small, damped
-        const v = fastStart + wobble;
-        return v < 0 ? 0 : v > 1 ? 1 : v;
+      const initialBoost = Math.min(motion.initialBoost, totalDelta * 0.12);
+      return animate(from + sign * initialBoost, to);
+    };
+
+    // Perpetual sway between the bounds with the configured waveform, resuming from the stored phase
+    const sway = () => {
+      stop();
+      const { clampedStart, clampedEnd, animation, onAnimationStart } = latestRef.current;
+      const lo = Math.min(clampedStart, clampedEnd);
+      const hi = Math.max(clampedStart, clampedEnd);
+      const center = (lo + hi) / 2;
+      const amplitude = (hi - lo) / 2;
+      const sample = createWaveformSampler(animation.waveform, animation.periodMs);
+      const startTs = performance.now() - swayElapsedRef.current;
+      onAnimationStart?.();
+      const tick = () => {
+        const elapsed = performance.now() - startTs;
+        swayElapsedRef.current = elapsed;
+        setPercent(center + amplitude * sample(elapsed));
+        rafRef.current = nextFrame(tick);
       };
-      const startTs = performance.now();
-      setIsAnimating(true);
+      rafRef.current = nextFrame(tick);
+    };
+
+    // Live mode: follow the latest sample with the configured smoothing, committing to React at a capped rate
+    const follow = (target: number) => {
+      liveTargetRef.current = target;
+      if (followingRef.current) return; // the running loop picks up the new target
+      stop();
+      const { reduceMotion, live } = latestRef.current;
+      if (reduceMotion || live.smoothing === "none") {
+        velocityRef.current = 0;
+        setPercent(target);
+        return;
+      }
+      followingRef.current = true;
+      let state = { position: displayRef.current, velocity: velocityRef.current };
+      let lastTs = performance.now();
+      let lastCommitTs = -Infinity;
       const step = () => {
         const now = performance.now();
-        const t = Math.min(1, (now - startTs) / durationMs);
-        const v = boostedStart + (to - boostedStart) * ease(t);
-        setDisplayPercent(v);
-        if (t < 1) {
-          rafRef.current = requestAnimationFrame(step);
-        } else {
-          rafRef.current = null;
-          setIsAnimating(false);
+        const { live, min, max, onValueChange } = latestRef.current;
+        const goal = liveTargetRef.current;
+        const dt = now - lastTs;
+        lastTs = now;
+        state =
+          live.smoothing === "ema"
+            ? stepEma(state, goal, dt, live.smoothingMs)
+            : stepCriticallyDamped(state, goal, dt, live.smoothingMs);
+        const settled = isSpringSettled(state, goal);
+        if (settled) state = { position: goal, velocity: 0 };
+        displayRef.current = state.position;
+        velocityRef.current = state.velocity;
+        if (drawFrameRef.current) drawFrameRef.current(state.position);
+        if (settled || now - lastCommitTs >= live.commitIntervalMs) {
+          lastCommitTs = now;
+          if (!drawFrameRef.current) setDisplayPercent(state.position);
+          onValueChange?.(percentToValue(state.position, min, max));
         }
-      };
-      rafRef.current = requestAnimationFrame(step);
-      return () => {
-        if (rafRef.current !== null) {
-          cancelAnimationFrame(rafRef.current);
+        if (settled) {
           rafRef.current = null;
+          followingRef.current = false;
+          syncState();
+          return;
         }
-        setIsAnimating(false);
+        rafRef.current = nextFrame(step);
       };
-    }
-
-    const min = Math.min(clampedStart, clampedEnd);
-    const max = Math.max(clampedStart, clampedEnd);
-    const center = (min + max) / 2;
-    const amplitude = (max - min) / 2;
-    const periodMs = 5200;
-
-    let startTs = performance.now();
-    const tick = () => {
-      const now = performance.now();
-      const t = (now - startTs) / periodMs;
-      const value = center + amplitude * Math.sin(t * Math.PI * 2);
-      setDisplayPercent(value);
-      rafRef.current = requestAnimationFrame(tick);
+      rafRef.current = nextFrame(step);
     };
 
-    rafRef.current = requestAnimationFrame(tick);
-    return () => {
-      if (rafRef.current !== null) {
-        cancelAnimationFrame(rafRef.current);
-        rafRef.current = null;
+    const pushSample = (percent: number) => {
+      if (latestRef.current.live.peakHold) {
+        setPeaks((prev) =>
+          !prev
+            ? { low: percent, high: percent }
+            : percent < prev.low || percent > prev.high
+              ? { low: Math.min(prev.low, percent), high: Math.max(prev.high, percent) }
+              : prev
+        );
       }
+      follow(percent);
     };
-  }, [perpetual, clampedStart, clampedEnd]);
 
-  // Smooth updates when not perpetual
+    const handle: SpeedometerV2Handle = {
+      play: () => {
+        const { perpetual, liveMode, reduceMotion, clampedStart, clampedEnd } = latestRef.current;
+        if (liveMode) {
+          follow(liveTargetRef.current);
+        } else if (reduceMotion) {
+          stop();
+          setPercent(clampedEnd);
+        } else if (perpetual) {
+          sway();
+        } else if (displayRef.current === clampedEnd) {
+          void playStatic(clampedStart, clampedEnd, true);
+        } else {
+          void animate(null, clampedEnd);
+        }
+      },
+      pause: () => {
+        stop();
+        velocityRef.current = 0;
+      },
+      reset: () => {
+        stop();
+        velocityRef.current = 0;
+        swayElapsedRef.current = 0;
+        setPercent(latestRef.current.clampedStart);
+      },
+      animateTo: (value, options = {}) => {
+        const { min, max } = latestRef.current;
+        const from = options.from !== undefined ? valueToPercent(options.from, min, max) : null;
+        return animate(from, valueToPercent(value, min, max), options.durationMs);
+      },
+      getValue: () => percentToValue(displayRef.current, latestRef.current.min, latestRef.current.max),
+      resetPeaks: () => setPeaks(null),
+    };
+
+    const setOnScreen = (onScreen: boolean) => setFrameOwnerPaused(frameOwner, !onScreen);
+
+    return { stop, setPercent, playStatic, sway, pushSample, setOnScreen, handle };
+  }, []);
+
+  useImperativeHandle(ref, () => controls.handle, [controls]);
+
+  // Animate between bounds when perpetual; otherwise one-time animation from start->end
   useEffect(() => {
-    if (perpetual) return;
-    if (!mountedRef.current) {
-      mountedRef.current = true;
-      setDisplayPercent(clampedEnd);
+    if (liveMode) return; // samples drive the needle instead
+    if (!showsValue) {
+      // Nothing to point at while loading, empty or in error; the next real value animates from where it is
+      controls.stop();
       return;
     }
-    setDisplayPercent(clampedEnd);
-  }, [perpetual, clampedEnd]);
+    if (!animateOnMount && !perpetual && displayRef.current === clampedEnd) {
+      // Mounted on endValue already; only later endValue changes animate
+      return;
+    }
+    if (reduceMotion) {
+      // No easing and no sway: jump straight to the target
+      controls.stop();
+      controls.setPercent(clampedEnd);
+      return;
+    }
+    if (perpetual) {
+      controls.sway();
+    } else {
+      void controls.playStatic(clampedStart, clampedEnd, false);
+    }
+    return controls.stop;
+  }, [
+    controls,
+    liveMode,
+    showsValue,
+    animateOnMount,
+    perpetual,
+    clampedStart,
+    clampedEnd,
+    reduceMotion,
+    resolvedAnimation.waveform,
+    resolvedAnimation.periodMs,
+  ]);
+
+  // Live mode: feed samples from the `value` prop or the subscribed source
+  useEffect(() => {
+    if (value === undefined || !Number.isFinite(value)) return;
+    controls.pushSample(valueToPercent(value, min, max));
+  }, [controls, value, min, max]);
+
+  // A source has no single target, so ARIA reports its latest sample at a throttled rate (not the smoothed needle)
+  const [ariaSample, setAriaSample] = useState<number | null>(null);
+  useEffect(() => {
+    if (!source) return;
+    let lastPublishTs = -Infinity;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let pending = 0;
+    const publish = () => {
+      timer = undefined;
+      lastPublishTs = performance.now();
+      setAriaSample(pending);
+    };
+    const unsubscribe = subscribeToSource(source, (sample) => {
+      if (!Number.isFinite(sample)) return;
+      const { min, max, live } = latestRef.current;
+      controls.pushSample(valueToPercent(sample, min, max));
+      pending = sample;
+      if (timer !== undefined) return;
+      const wait = lastPublishTs + live.ariaIntervalMs - performance.now();
+      if (wait <= 0) publish();
+      else timer = setTimeout(publish, wait);
+    });
+    return () => {
+      unsubscribe();
+      clearTimeout(timer);
+    };
+  }, [controls, source]);
+
+  // Make sure no frame loop outlives the component (live mode has no per-effect cleanup)
+  useEffect(() => controls.stop, [controls]);
+
+  // Hold animation frames while the gauge is scrolled out of view (hidden tabs are handled by the scheduler)
+  useEffect(() => {
+    const el = wrapperRef.current;
+    if (!el || typeof IntersectionObserver === "undefined") return;
+    const observer = new IntersectionObserver((entries) => {
+      controls.setOnScreen(entries[entries.length - 1].isIntersecting);
+    });
+    observer.observe(el);
+    return () => {
+      observer.disconnect();
+      controls.setOnScreen(true);
+    };
+  }, [controls]);
 
-  // Extend arc beyond a perfect semicircle by drooping ends down a bit
-  const halfSweep = 90 + droopDeg; // total sweep = 180 + 2*droop
-  const sweepDeg = 2 * halfSweep; // convenience
-  const conicFromDeg = 180+droopDeg; // align 0deg with left-lower (drooped) endpoint in CSS coords
+  // CSS transitions only smooth prop changes in static mode; the rAF loop drives everything else
+  const cssTransitions = !perpetual && !isAnimating && !reduceMotion && !liveMode && !staticRender;
 
-  const angle = mapPercentToAngle(displayPercent, halfSweep);
+  const angle = mapPercentToAngle(displayPercent, startDeg, endDeg);
   const progressPercent = clampPercentage(displayPercent);
 
-  // Arc path with drooped ends — bring closer to number by reducing radius ~8px
+  // Arc path — bring closer to number by reducing radius ~8px
   const trackRadius = radius - arcInsetPx;
-  // Start/end points for a >180° arc (large-arc flag = 1) with drooped ends
-  const startAngleRad = ((180 - droopDeg) * Math.PI) / 180;
-  const endAngleRad = (droopDeg * Math.PI) / 180;
-  const startX = centerX + trackRadius * Math.cos(startAngleRad);
-  const startY = centerY + trackRadius * Math.sin(startAngleRad);
-  const endX = centerX + trackRadius * Math.cos(endAngleRad);
-  const endY = centerY + trackRadius * Math.sin(endAngleRad);
-  // Use large-arc (1) and sweep (1, CCW) to take the long way across the top
-  const arcPath = `M ${startX} ${startY} A ${trackRadius} ${trackRadius} 0 1 1 ${endX} ${endY}`;
-  // Inner white semicircle path (filled)
-  const innerStartX = centerX - innerFillRadius;
-  const innerEndX = centerX + innerFillRadius;
-  const innerSemiPath = `M ${innerStartX} ${centerY} A ${innerFillRadius} ${innerFillRadius} 0 0 1 ${innerEndX} ${centerY} L ${centerX} ${centerY} Z`;
-  const innerRectHeight = 8;
+  const arcPath = buildArcPath(centerX, centerY, trackRadius, startDeg, endDeg);
+  // SVG fallback gradient runs start -> end; a full ring runs across the circle instead
+  const gradientFrom = polarPoint(centerX, centerY, trackRadius, startDeg);
+  const gradientTo = polarPoint(centerX, centerY, trackRadius, sweepDeg >= 360 ? startDeg + 180 : endDeg);
+  const numberFormatter = useMemo(
+    () =>
+      new Intl.NumberFormat(locale, {
+        minimumFractionDigits: decimals,
+        maximumFractionDigits: decimals,
+        ...numberFormat,
+      }),
+    [locale, decimals, numberFormat]
+  );
+
+  // Threshold bands as ring segments following the drooped arc (same thickness as the track)
+  const zoneSegments = useMemo(() => {
+    if (!zones?.length) return [];
+    const innerR = trackRadius - trackStroke / 2;
+    const outerR = trackRadius + trackStroke / 2;
+    return zones
+      .map((zone, index) => {
+        const a = valueToPercent(Math.min(zone.from, zone.to), min, max);
+        const b = valueToPercent(Math.max(zone.from, zone.to), min, max);
+        if (b <= a) return null;
+        const d = buildRingWedgePathFromAngles(
+          centerX,
+          centerY,
+          innerR,
+          outerR,
+          mapPercentToAngle(a, startDeg, endDeg),
+          mapPercentToAngle(b, startDeg, endDeg)
+        );
+        return { key: `${index}-${zone.from}-${zone.to}`, index, d, color: zone.color, label: zone.label, mid: (a + b) / 2 };
+      })
+      .filter((segment) => segment !== null);
+  }, [zones, min, max, centerX, centerY, trackRadius, trackStroke, startDeg, endDeg]);
+  const hasZones = zoneSegments.length > 0;
+
+  // Segmented variant: discrete blocks along the track, lit up to the current value.
+  // Block color: `segments.colors`, else the zone under the block's middle, else the theme gradient there
+  const showNeedle = needleProp ?? variant === "needle";
+  const segmentCount = Math.max(1, Math.round(segments?.count ?? 10));
+  const segmentGapDeg = (((segments?.gap ?? 3) * k) / trackRadius) * (180 / Math.PI);
+  const segmentBlocks =
+    variant === "segmented"
+      ? Array.from({ length: segmentCount }, (_, index) => {
+          const from = (index * 100) / segmentCount;
+          const to = ((index + 1) * 100) / segmentCount;
+          const a0 = mapPercentToAngle(from, startDeg, endDeg);
+          const a1 = mapPercentToAngle(to, startDeg, endDeg);
+          // Half a gap on each side; the outer ends of an open arc stay flush with the track ends
+          const inset = Math.min(segmentGapDeg / 2, Math.abs(a1 - a0) / 4) * (clockwise ? 1 : -1);
+          const closed = sweepDeg >= 360;
+          const midValue = percentToValue((from + to) / 2, min, max);
+          const colors = segments?.colors;
+          const color =
+            (typeof colors === "function" ? colors(index, segmentCount) : colors?.[index]) ??
+            zones?.find((z) => midValue >= Math.min(z.from, z.to) && midValue <= Math.max(z.from, z.to))?.color ??
+            sampleGradient(theme.gradientStops, (from + to) / 200);
+          return {
+            key: `segment-${index}`,
+            d: buildRingWedgePathFromAngles(
+              centerX,
+              centerY,
+              trackRadius - trackStroke / 2,
+              trackRadius + trackStroke / 2,
+              index > 0 || closed ? a0 + inset : a0,
+              index < segmentCount - 1 || closed ? a1 - inset : a1,
+              (segments?.cornerRadius ?? 2) * k
+            ),
+            color,
+            from,
+            to,
+            lit: showsValue && progressPercent > from,
+          };
+        })
+      : [];
+
+  // Needle cap wedge, shared by the main needle and extra needles (drawn at 0°, the group rotates).
+  // Align the leading edge of wedge to the needle (0°); the wedge trails behind it (mirrored for counterclockwise sweeps).
+  const capRadialOffset = 20 * k; // keep current outward shift
+  const capRadialThickness = trackStroke * 0.3; // slimmer band
+  const capCenterR = trackRadius + capRadialOffset;
+  const capWidthDeg = 6.4; // total angular width of wedge
+  const needleCapPath = buildRingWedgePathFromAngles(
+    centerX,
+    centerY,
+    capCenterR - capRadialThickness / 2,
+    capCenterR + capRadialThickness / 2,
+    clockwise ? -capWidthDeg : -0.65, // trailing edge
+    clockwise ? 0.65 : capWidthDeg // leading edge aligned with needle
+  );
+
+  // Extra needles and track markers (ticks across the track, triangles pointing in from outside)
+  const markerShapes = (markers ?? []).map((marker, index) => {
+    const markerAngle = mapPercentToAngle(valueToPercent(marker.value, min, max), startDeg, endDeg);
+    const color = marker.color ?? theme.needle;
+    const style = marker.style ?? "needle";
+    const innerEdge = trackRadius - trackStroke / 2;
+    const outerEdge = trackRadius + trackStroke / 2;
+    let d = "";
+    if (style === "tick") {
+      d = buildRingWedgePathFromAngles(
+        centerX,
+        centerY,
+        innerEdge - 2 * k,
+        outerEdge + 2 * k,
+        markerAngle - 0.9,
+        markerAngle + 0.9
+      );
+    } else if (style === "triangle") {
+      const point = (r: number, deg: number) => {
+        const p = polarPoint(centerX, centerY, r, deg);
+        return `${p.x} ${p.y}`;
+      };
+      const baseR = outerEdge + 9 * k;
+      const halfWidthDeg = ((5 * k) / baseR) * (180 / Math.PI);
+      d = `M ${point(outerEdge, markerAngle)} L ${point(baseR, markerAngle - halfWidthDeg)} L ${point(baseR, markerAngle + halfWidthDeg)} Z`;
+    }
+    return { key: `marker-${index}`, index, style, color, label: marker.label, angle: markerAngle, d };
+  });
+
+  // Peak hold: thin wedges across the track at the session min/max
+  const peakMarkers =
+    liveOptions.peakHold && peaks && showsValue
+      ? [peaks.low, peaks.high].map((percent) => {
+          const a = mapPercentToAngle(percent, startDeg, endDeg);
+          return buildRingWedgePathFromAngles(
+            centerX,
+            centerY,
+            trackRadius - trackStroke / 2,
+            trackRadius + trackStroke / 2,
+            a - 0.6,
+            a + 0.6
+          );
+        })
+      : [];
+
+  // Scale marks: ticks hang off the inner or outer edge of the track, labels sit beyond the major ticks
+  const scaleMarks = useMemo(() => {
+    if (!scale) return null;
+    const { major, minor } = resolveScaleTicks(scale, min, max);
+    const dir = scalePlacement === "outside" ? 1 : -1;
+    const edgeR = trackRadius + dir * (trackStroke / 2 + tickGap);
+    const polar = (value: number, r: number) =>
+      polarPoint(centerX, centerY, r, mapPercentToAngle(valueToPercent(value, min, max), startDeg, endDeg));
+    const tick = (value: number, length: number, isMajor: boolean) => {
+      const p0 = polar(value, edgeR);
+      const p1 = polar(value, edgeR + dir * length);
+      return { key: `${isMajor ? "M" : "m"}${value}`, x1: p0.x, y1: p0.y, x2: p1.x, y2: p1.y, major: isMajor };
+    };
+    const format = scale.formatLabel ?? ((v: number) => numberFormatter.format(v));
+    const labelR = edgeR + dir * (majorTickLength + 4 * k + tickLabelFontSize / 2);
+    return {
+      ticks: [...minor.map((v) => tick(v, minorTickLength, false)), ...major.map((v) => tick(v, majorTickLength, true))],
+      labels:
+        (scale.showLabels ?? true)
+          ? major.map((v) => ({ key: `L${v}`, ...polar(v, labelR), text: format(v) }))
+          : [],
+    };
+  }, [
+    scale,
+    scalePlacement,
+    min,
+    max,
+    trackRadius,
+    trackStroke,
+    startDeg,
+    endDeg,
+    centerX,
+    centerY,
+    numberFormatter,
+    k,
+    tickGap,
+    majorTickLength,
+    minorTickLength,
+    tickLabelFontSize,
+  ]);
+
+  // Inner white backdrop (filled): semicircle facing the middle of the sweep, full disc for (near-)rings
+  const bisectorDeg = (startDeg + endDeg) / 2;
+  const backdropHalfDeg = sweepDeg >= 300 ? 180 : Math.min(90, sweepDeg / 2);
+  const innerSemiPath = `${buildArcPath(
+    centerX,
+    centerY,
+    innerFillRadius,
+    bisectorDeg - backdropHalfDeg,
+    bisectorDeg + backdropHalfDeg
+  )} L ${centerX} ${centerY} Z`;
+  const innerRectHeight = 8 * k;
+
+  // Center text sits on the sweep's bisector: centered in rings, pushed into the wedge for narrow sweeps
+  const numberPosition =
+    sweepDeg >= 300
+      ? { x: centerX, y: centerY - radius * 0.12 }
+      : polarPoint(centerX, centerY, sweepDeg >= 180 ? radius * 0.35 - 8 * k : radius * 0.55, bisectorDeg);
+
+  // Sparkline under the number, scaled to the history's own range; the labels move down to make room
+  const sparkline = (() => {
+    const values = (history ?? []).filter((v) => Number.isFinite(v));
+    if (values.length < 2) return null;
+    const lineWidth = 64 * k;
+    const lineHeight = 14 * k;
+    const lo = Math.min(...values);
+    const hi = Math.max(...values);
+    const x0 = numberPosition.x - lineWidth / 2;
+    const y0 = numberPosition.y + 24 * k;
+    const coords = values.map((v, i): [number, number] => [
+      x0 + (i * lineWidth) / (values.length - 1),
+      y0 + lineHeight - (hi > lo ? ((v - lo) / (hi - lo)) * lineHeight : lineHeight / 2),
+    ]);
+    return { coords, points: coords.map(([x, y]) => `${x},${y}`).join(" "), offset: lineHeight + 4 * k };
+  })();
+  const labelY = numberPosition.y + radius * 0.2 + 8 * k + (sparkline?.offset ?? 0);
+  const subLabelY = numberPosition.y + radius * 0.3 - 8 * k + (sparkline?.offset ?? 0);
 
   // Needle geometry (center-anchored line with hub)
-  const needleOvershootBeyondArc = 6; // 8px shorter than before
+  const needleOvershootBeyondArc = 6 * k; // 8px shorter than before
   const needleLength = (radius - arcInsetPx) + trackStroke / 2 + needleOvershootBeyondArc; // measure from arc centerline
 
   const gradientId = useId();
   const textGradientId = useId();
   const conicMaskId = useId();
   const innerRadialId = useId();
+  const needleCapGradId = useId();
+
+  // CSS conic gradients always run clockwise: counterclockwise sweeps start from endDeg with the stops reversed
+  const conicFromDeg = Math.min(startDeg, endDeg);
+  const conicStops = (clockwise ? theme.gradientStops : [...theme.gradientStops].reverse())
+    .map((stop) => `${stop.color} ${(clockwise ? stop.offset : 1 - stop.offset) * sweepDeg}deg`)
+    .join(", ");
+
+  // Runtime feature detect for CSS conic-gradient support (fallback to SVG stroke if unsupported).
+  // Standalone SVGs always use the native gradient: foreignObject HTML doesn't survive export
+  const supportsConic = useSupportsConic() && !staticRender;
+
+  // Progress dash: CSS so it can transition when interactive, plain attributes in standalone SVGs
+  const progressDash = staticRender
+    ? { strokeDasharray: `${progressPercent} 100`, strokeDashoffset: 0 }
+    : {
+        style: {
+          transition: cssTransitions ? "stroke-dasharray 600ms ease-in-out" : undefined,
+          strokeDasharray: `${progressPercent} ${100}`,
+          strokeDashoffset: 0,
+        },
+      };
+
+  const formatNumber = (value: number, percent: number) =>
+    formatValue ? formatValue(value, { min, max, percent, unit }) : numberFormatter.format(value);
+  const displayValue = percentToValue(progressPercent, min, max);
+  const valueText = showsValue ? formatNumber(displayValue, progressPercent) : "—";
+  const messages = { ...defaultSpeedometerMessages, ...localeSettings.messages, ...messagesProp };
+  const mainLabel = label ?? (type === "pro" ? messages.proLabel : messages.freeLabel);
+
+  // Status line: error and stale take over the subLabel line; loading and empty only speak through aria.
+  // The timestamp is local time, so server markup (and hydration) keeps the generic stale note
+  const canFormatTime = hydrated || staticRender;
+  const lastUpdatedText = useMemo(
+    () =>
+      lastUpdated === undefined || !canFormatTime
+        ? undefined
+        : new Intl.DateTimeFormat(locale, { dateStyle: "short", timeStyle: "short" }).format(lastUpdated),
+    [lastUpdated, locale, canFormatTime]
+  );
+  const statusText =
+    status === "loading"
+      ? messages.loading
+      : status === "empty"
+        ? messages.empty
+        : status === "error"
+          ? (statusMessage ?? messages.error)
+          : status === "stale"
+            ? (statusMessage ?? (lastUpdatedText ? messages.lastUpdated(lastUpdatedText) : messages.stale))
+            : "";
+  const statusLine = status === "error" || status === "stale";
+  const secondary = statusLine ? statusText : (subLabel ?? "");
+
+  // Assistive tech gets the target value, not every animation frame
+  // (live sources have no single target, so they report the throttled latest sample)
+  const targetValue =
+    value !== undefined
+      ? clampValue(value, min, max)
+      : liveMode
+        ? ariaSample !== null
+          ? clampValue(ariaSample, min, max)
+          : displayValue
+        : clampValue(endValue, min, max);
+  const targetText = formatNumber(targetValue, valueToPercent(targetValue, min, max));
+  // "%" follows the locale's percent pattern (sign placement, spacing, symbol); other units are appended
+  const percentAffixes = useMemo(() => resolvePercentAffixes(locale), [locale]);
+  const unitBefore = unit === "%" && percentAffixes.prefix.trim() !== "";
+  const unitSymbol = unit === "%" ? (unitBefore ? percentAffixes.prefix : percentAffixes.suffix).trim() : unit;
+  const withUnit = (text: string) =>
+    !unit ? text : unit === "%" ? `${percentAffixes.prefix}${text}${percentAffixes.suffix}` : `${text} ${unit}`;
+  const targetValueText = withUnit(targetText);
+  const ariaValueText = showsValue ? targetValueText : statusText;
+  const announcement = useSettledText(messages.announcement(mainLabel, ariaValueText), announce !== "off");
+  const titleId = useId();
+  const descId = useId();
 
-  // Runtime feature detect for CSS conic-gradient support (fallback to SVG stroke if unsupported)
-  const supportsConic = useMemo(() => {
-    if (typeof window === "undefined") return false;
-    try {
-      // Using background-image ensures broad engines check the right feature
-      return (window as any).CSS?.supports?.("background-image", "conic-gradient(#000, #fff)") ?? false;
-    } catch {
-      return false;
+  // Change vs. a previous reading, against the target so the badge doesn't count along with the animation
+  const deltaValue = delta ?? (previousValue !== undefined ? targetValue - previousValue : undefined);
+  const deltaBadge =
+    !showsValue || deltaValue === undefined || Number.isNaN(deltaValue)
+      ? null
+      : {
+          text:
+            deltaValue > 0
+              ? `▲ +${numberFormatter.format(deltaValue)}`
+              : deltaValue < 0
+                ? `▼ −${numberFormatter.format(-deltaValue)}`
+                : numberFormatter.format(0),
+          color: deltaValue > 0 ? theme.deltaUp : deltaValue < 0 ? theme.deltaDown : theme.subLabel,
+        };
+  // Ghost marker: faded tick at the previous position
+  const ghostValue = previousValue ?? (delta !== undefined ? targetValue - delta : undefined);
+  const ghostAngle =
+    !showsValue || ghostValue === undefined || Number.isNaN(ghostValue)
+      ? null
+      : mapPercentToAngle(valueToPercent(ghostValue, min, max), startDeg, endDeg);
+  const ghostPath =
+    ghostAngle === null
+      ? null
+      : buildRingWedgePathFromAngles(
+          centerX,
+          centerY,
+          trackRadius - trackStroke / 2 - 2 * k,
+          trackRadius + trackStroke / 2 + 2 * k,
+          ghostAngle - 0.9,
+          ghostAngle + 0.9
+        );
+
+  // Render slots get the computed layout so custom content lines up with the arc
+  const geometry: GaugeGeometry = {
+    width,
+    height,
+    scale: k,
+    centerX,
+    centerY,
+    outerRadius,
+    trackRadius,
+    trackWidth: trackStroke,
+    innerRadius: innerFillRadius,
+    startAngle: startDeg,
+    endAngle: endDeg,
+  };
+  const slotContext: SlotContext = { geometry, theme, value: displayValue, percent: progressPercent, status };
+
+  // Tooltips: invisible hit areas over the computed geometry, each anchored to a point on the arc.
+  // Values are shown exactly (no `decimals` rounding, no clamping) so users can see what the number stands for
+  const tooltipsEnabled = (tooltip ?? renderTooltip !== undefined) && !staticRender;
+  const [activeTip, setActiveTip] = useState<string | null>(null);
+  const tooltipId = useId();
+  const exactFormatter = useMemo(
+    () => new Intl.NumberFormat(locale, { maximumFractionDigits: 20, numberingSystem: numberFormat?.numberingSystem }),
+    [locale, numberFormat?.numberingSystem]
+  );
+  const exactText = (v: number) => withUnit(exactFormatter.format(v));
+  const rangeText = (from: number, to: number) =>
+    withUnit(`${exactFormatter.format(Math.min(from, to))}–${exactFormatter.format(Math.max(from, to))}`);
+  const tooltipEdgeR = trackRadius + trackStroke / 2;
+  const edgePoint = (percent: number, r = tooltipEdgeR) =>
+    polarPoint(centerX, centerY, r, mapPercentToAngle(percent, startDeg, endDeg));
+  const needleHitPath = (angleDeg: number) =>
+    buildRingWedgePathFromAngles(centerX, centerY, 8 * k, needleLength, angleDeg - 4, angleDeg + 4);
+  const tooltipAreas: {
+    key: string;
+    d: string;
+    x: number;
+    y: number;
+    focusable: boolean; // the needle shares the number's tooltip, so only the number takes a tab stop
+    target: GaugeTooltipTarget;
+    title?: string;
+    text: string;
+  }[] = [];
+  if (tooltipsEnabled && showsValue) {
+    const rawValue = value ?? (liveMode ? displayValue : endValue);
+    const valueTip = { target: { kind: "value", value: rawValue } as const, title: mainLabel, text: exactText(rawValue) };
+    const box = { x: numberPosition.x - 48 * k, y: numberPosition.y - 24 * k, w: 96 * k, h: 48 * k };
+    tooltipAreas.push({
+      key: "number",
+      d: `M ${box.x} ${box.y} h ${box.w} v ${box.h} h ${-box.w} Z`,
+      x: numberPosition.x,
+      y: box.y,
+      focusable: true,
+      ...valueTip,
+    });
+    if (variant === "segmented") {
+      for (const [index, block] of segmentBlocks.entries()) {
+        const from = percentToValue(block.from, min, max);
+        const to = percentToValue(block.to, min, max);
+        const mid = (from + to) / 2;
+        const label = zones?.find((z) => mid >= Math.min(z.from, z.to) && mid <= Math.max(z.from, z.to))?.label;
+        tooltipAreas.push({
+          key: block.key,
+          d: block.d,
+          ...edgePoint((block.from + block.to) / 2),
+          focusable: true,
+          target: { kind: "segment", index, from, to, label },
+          title: label,
+          text: rangeText(from, to),
+        });
+      }
+    } else {
+      for (const segment of zoneSegments) {
+        const zone = zones![segment.index];
+        tooltipAreas.push({
+          key: `zone-${segment.key}`,
+          d: segment.d,
+          ...edgePoint(segment.mid),
+          focusable: true,
+          target: { kind: "zone", zone, index: segment.index },
+          title: zone.label,
+          text: rangeText(zone.from, zone.to),
+        });
+      }
     }
-  }, []);
+    for (const m of markerShapes) {
+      const marker = markers![m.index];
+      const percent = valueToPercent(marker.value, min, max);
+      tooltipAreas.push({
+        key: m.key,
+        d: m.style === "needle" ? needleHitPath(m.angle) : m.d,
+        ...(m.style === "needle"
+          ? polarPoint(centerX, centerY, needleLength, m.angle)
+          : edgePoint(percent, m.style === "triangle" ? tooltipEdgeR + 9 * k : tooltipEdgeR + 2 * k)),
+        focusable: true,
+        target: { kind: "marker", marker, index: m.index },
+        title: marker.label,
+        text: exactText(marker.value),
+      });
+    }
+    if (showNeedle) {
+      tooltipAreas.push({
+        key: "needle",
+        d: needleHitPath(angle),
+        ...polarPoint(centerX, centerY, needleLength, angle),
+        focusable: false,
+        ...valueTip,
+      });
+    }
+  }
+  const activeTooltip = tooltipAreas.find((area) => area.key === activeTip);
+  const leaveTip = (key: string) => setActiveTip((current) => (current === key ? null : current));
+  const tooltipHitAreas = tooltipAreas.length > 0 && (
+    <g fill="transparent" pointerEvents="visiblePainted">
+      {tooltipAreas.map((area) => (
+        <path
+          key={area.key}
+          d={area.d}
+          tabIndex={area.focusable ? 0 : undefined}
+          aria-label={area.focusable ? (area.title ?? area.text) : undefined}
+          aria-describedby={activeTip === area.key ? tooltipId : undefined}
+          onPointerEnter={() => setActiveTip(area.key)}
+          onPointerLeave={() => leaveTip(area.key)}
+          onFocus={() => setActiveTip(area.key)}
+          onBlur={() => leaveTip(area.key)}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") setActiveTip(null);
+            // Value keys belong to the slider, not to a tooltip stop
+            if (/^(Arrow|Page)|^(Home|End)$/.test(e.key)) e.stopPropagation();
+          }}
+        />
+      ))}
+    </g>
+  );
 
-  const percentText = `${Math.round(progressPercent)}%`;
-  const mainLabel = label ?? (type === "pro" ? "Most Pro users" : "Your score");
-  const secondary = subLabel ?? "";
+  // Needle group: line + cap wedge (or custom content) drawn pointing up, rotated about the hub.
+  // Custom content comes as a render function so a slot returning nothing hides the needle
+  const renderNeedleGroup = (
+    key: string,
+    angleDeg: number,
+    color: string,
+    capFill: string,
+    transition: boolean,
+    renderContent?: () => ReactNode,
+    opacity?: number
+  ) => (
+    <g
+      key={key}
+      opacity={opacity}
+      transform={staticRender ? `rotate(${angleDeg} ${centerX} ${centerY})` : undefined}
+      style={
+        staticRender
+          ? undefined
+          : {
+              transition: transition ? "transform 600ms ease-in-out" : undefined,
+              transformOrigin: `${centerX}px ${centerY}px`,
+              transform: `rotate(${angleDeg}deg)`,
+            }
+      }
+    >
+      {renderContent ? (
+        renderContent()
+      ) : (
+        <>
+          <line
+            x1={centerX}
+            y1={centerY}
+            x2={centerX}
+            y2={centerY - needleLength}
+            stroke={color}
+            strokeWidth={3 * k}
+            strokeLinecap="round"
+          />
+          <path d={needleCapPath} fill={capFill} pointerEvents="none" />
+        </>
+      )}
+    </g>
+  );
 
-  return (
-    <div style={{ width, userSelect: "none" }} aria-label="SpeedometerV2">
-      <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} role="img">
-        <defs>
-          <linearGradient
-            id={gradientId}
-            gradientUnits="userSpaceOnUse"
-            x1={startX}
-            y1={startY}
-            x2={endX}
-            y2={endY}
-          >
-            {type === "free" ? (
-              <>
-                {/* Approximation of updated conic gradient across the semi-arc */}
-                <stop offset="0%" stopColor="#F1FAFF" />
-                <stop offset="50%" stopColor="#00B3F4" />
-                <stop offset="100%" stopColor="#2944EF" />
-              </>
-            ) : (
-              <>
-                {/* Pro gradient: #30B7A4 (100%) -> #006166 (100%) -> #30B7A4 (0%) */}
-                <stop offset="0%" stopColor="#D0EEEA" />
-                <stop offset="60%" stopColor="#30B7A4" />
-                <stop offset="100%" stopColor="#006166" />
-              </>
-            )}
-          </linearGradient>
-          {/* Vertical gradient for big percentage text (black to gray) */}
-          <linearGradient id={textGradientId} x1="0%" y1="0%" x2="0%" y2="100%">
-            <stop offset="0%" stopColor="#000000" />
-            <stop offset="90%" stopColor="#808080" />
-            <stop offset="100%" stopColor="#808080" />
-          </linearGradient>
-
-          {/* Radial gradient for inner semicircle fade (opaque center -> transparent edge) */}
-          <radialGradient id={innerRadialId} gradientUnits="userSpaceOnUse" cx={centerX} cy={centerY} r={innerFillRadius}>
-            <stop offset="0%" stopColor="#ffffff" stopOpacity="1" />
-            <stop offset="70%" stopColor="#ffffff" stopOpacity="1" />
-            <stop offset="100%" stopColor="#ffffff" stopOpacity="0" />
-          </radialGradient>
-
-          {/* Needle cap gradient: flipped direction (transparent -> black along tangent) */}
-          <linearGradient id="needleCapGrad" x1="0%" y1="50%" x2="100%" y2="50%">
-            <stop offset="0%" stopColor="#000000" stopOpacity="0" />
-            <stop offset="100%" stopColor="#000000" stopOpacity="1" />
-          </linearGradient>
-
-          {/* Mask that reveals only the current progress arc with the same thickness */}
-          <mask id={conicMaskId} maskUnits="userSpaceOnUse" x="0" y="0" width={width} height={height}>
+  // Legend: swatch + label items flowed into centered rows under the gauge
+  const legendFontSize = 12 * k;
+  const legendRowHeight = 20 * k;
+  const legendLayout = (() => {
+    if (!legend) return { rows: [], height: 0 };
+    const entries = [
+      { key: "main", color: theme.needle, label: mainLabel },
+      ...markerShapes.filter((m) => m.label).map((m) => ({ key: m.key, color: m.color, label: m.label ?? "" })),
+    ];
+    const swatch = 10 * k;
+    const itemGap = 14 * k;
+    const maxRowWidth = width - 16 * k;
+    const rows: { items: ((typeof entries)[number] & { x: number })[]; width: number }[] = [];
+    for (const entry of entries) {
+      // Rough text width estimate; keeps layout deterministic without measuring the DOM
+      const itemWidth = swatch + 6 * k + entry.label.length * legendFontSize * 0.55;
+      let row = rows[rows.length - 1];
+      if (!row || (row.items.length > 0 && row.width + itemGap + itemWidth > maxRowWidth)) {
+        row = { items: [], width: 0 };
+        rows.push(row);
+      }
+      const x = row.items.length ? row.width + itemGap : 0;
+      row.items.push({ ...entry, x });
+      row.width = x + itemWidth;
+    }
+    return { rows, height: rows.length * legendRowHeight + 6 * k };
+  })();
+  const svgHeight = height + legendLayout.height;
+  // Swatch then text, flowing right-to-left in RTL (text x is its start edge, which is the right edge in RTL)
+  const legendItems = legendLayout.rows.flatMap((row, r) => {
+    const rowX = centerX - row.width / 2;
+    const y = height + r * legendRowHeight + legendRowHeight / 2;
+    return row.items.map((item) => {
+      const swatchX = rtl ? rowX + row.width - item.x - 10 * k : rowX + item.x;
+      return { ...item, swatchX, textX: rtl ? swatchX - 6 * k : swatchX + 16 * k, y };
+    });
+  });
+
+  // Input mode: pointer angle is inverted through the drooped sweep back to a value
+  const draggingRef = useRef<boolean>(false);
+  // Last value sent through onChange, so a drag doesn't repeat it on every move;
+  // re-synced to the prop after every commit (not during render)
+  const inputValueRef = useRef<number | undefined>(value);
+  useLayoutEffect(() => {
+    inputValueRef.current = value;
+  });
+  const commitInput = (next: number, committed: boolean, previous = inputValueRef.current) => {
+    const snapped = snapToStep(next, min, max, step);
+    if (snapped !== previous) {
+      inputValueRef.current = snapped;
+      if (valueProp === undefined) setUncontrolledValue(snapped);
+      onChange?.(snapped);
+    }
+    if (committed) onChangeCommitted?.(snapped);
+  };
+  const valueFromPointer = (e: PointerEvent<Element>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) * width) / rect.width;
+    const y = ((e.clientY - rect.top) * svgHeight) / rect.height;
+    const deg = (Math.atan2(x - centerX, centerY - y) * 180) / Math.PI;
+    return percentToValue(mapAngleToPercent(deg, startDeg, endDeg), min, max);
+  };
+  // Pointer input also goes on the tooltip overlay, which sits above the gauge
+  const pointerInputHandlers = interactive
+    ? {
+        onPointerDown: (e: PointerEvent<Element>) => {
+          if (e.button !== 0) return;
+          draggingRef.current = true;
+          e.currentTarget.setPointerCapture(e.pointerId);
+          commitInput(valueFromPointer(e), false);
+        },
+        onPointerMove: (e: PointerEvent<Element>) => {
+          if (draggingRef.current) commitInput(valueFromPointer(e), false);
+        },
+        onPointerUp: (e: PointerEvent<Element>) => {
+          if (!draggingRef.current) return;
+          draggingRef.current = false;
+          commitInput(valueFromPointer(e), true);
+        },
+        onPointerCancel: () => {
+          if (!draggingRef.current) return;
+          draggingRef.current = false;
+          if (inputValueRef.current !== undefined) onChangeCommitted?.(inputValueRef.current);
+        },
+      }
+    : {};
+  const inputHandlers = interactive
+    ? {
+        tabIndex: 0,
+        ...pointerInputHandlers,
+        onKeyDown: (e: KeyboardEvent<Element>) => {
+          // Keys step from the rendered value (like a native range input), even if the parent ignored onChange
+          const current = value ?? min;
+          const bigStep = Math.max(step, (max - min) / 10);
+          const next = (() => {
+            switch (e.key) {
+              case "ArrowUp":
+                return current + step;
+              case "ArrowDown":
+                return current - step;
+              // The sweep is mirrored in RTL, so the horizontal arrows swap too
+              case "ArrowRight":
+                return current + (rtl ? -step : step);
+              case "ArrowLeft":
+                return current + (rtl ? step : -step);
+              case "PageUp":
+                return current + bigStep;
+              case "PageDown":
+                return current - bigStep;
+              case "Home":
+                return min;
+              case "End":
+                return max;
+              default:
+                return null;
+            }
+          })();
+          if (next === null) return;
+          e.preventDefault();
+          commitInput(next, true, current);
+        },
+      }
+    : {};
+
+  // Canvas renderer: the same layout as plain data; frames are painted straight from the animation loop
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const canvasScene: CanvasScene | null = canvasMode
+    ? {
+        width,
+        height: svgHeight,
+        fontFamily: theme.fontFamily,
+        direction: rtl ? "rtl" : "ltr",
+        centerX,
+        centerY,
+        trackRadius,
+        trackWidth: trackStroke,
+        startAngle: startDeg,
+        endAngle: endDeg,
+        trackColor: theme.track,
+        arcPath,
+        progress: {
+          visible: !hasZones,
+          conicFrom: conicFromDeg,
+          conicStops: (clockwise ? theme.gradientStops : [...theme.gradientStops].reverse()).map((stop) => ({
+            at: (clockwise ? stop.offset : 1 - stop.offset) * sweepDeg,
+            color: stop.color,
+          })),
+          linear: [gradientFrom.x, gradientFrom.y, gradientTo.x, gradientTo.y],
+          stops: theme.gradientStops,
+        },
+        zones: (zones ?? [])
+          .map((zone) => ({
+            from: valueToPercent(Math.min(zone.from, zone.to), min, max),
+            to: valueToPercent(Math.max(zone.from, zone.to), min, max),
+            color: zone.color,
+          }))
+          .filter((zone) => zone.to > zone.from),
+        zonesFollowProgress: zoneMode === "progress",
+        segments: variant === "segmented" ? segmentBlocks : null,
+        overlays: [
+          ...(ghostPath ? [{ d: ghostPath, color: theme.needle, opacity: 0.35 }] : []),
+          ...peakMarkers.map((d) => ({ d, color: theme.needle, opacity: 0.6 })),
+          ...markerShapes.filter((m) => m.style !== "needle").map((m) => ({ d: m.d, color: m.color, opacity: 1 })),
+        ],
+        extraNeedles: markerShapes.filter((m) => m.style === "needle").map((m) => ({ angle: m.angle, color: m.color })),
+        needle: {
+          visible: showNeedle,
+          opacity: status === "stale" ? staleNeedleOpacity : 1,
+          color: theme.needle,
+          capColor: theme.needleCap,
+          capPath: needleCapPath,
+          capSpan: [
+            polarPoint(centerX, centerY, capCenterR + capRadialThickness / 2, clockwise ? -capWidthDeg : -0.65).x,
+            polarPoint(centerX, centerY, capCenterR + capRadialThickness / 2, clockwise ? 0.65 : capWidthDeg).x,
+          ],
+          length: needleLength,
+          width: 3 * k,
+        },
+        backdrop: {
+          path: innerSemiPath,
+          color: theme.backdrop,
+          radius: innerFillRadius,
+          rect: [centerX - 6 * k, centerY, 12 * k, innerRectHeight],
+        },
+        scale: scaleMarks && {
+          ticks: scaleMarks.ticks,
+          labels: scaleMarks.labels,
+          tickColor: theme.tick,
+          labelColor: theme.tickLabel,
+          fontSize: tickLabelFontSize,
+          lineScale: k,
+        },
+        number: {
+          x: numberPosition.x,
+          y: numberPosition.y,
+          fontSize: 44 * k, // 2.75rem
+          gradient: theme.textGradient,
+          format: (percent) => formatNumber(percentToValue(percent, min, max), percent),
+          unit: unit ? unitSymbol : "",
+          unitBefore,
+          unitFontSize: 17.6 * k, // 1.1rem
+          unitGap: 4 * k,
+          badge: deltaBadge && { ...deltaBadge, fontSize: 12.8 * k, gap: 6 * k },
+        },
+        labels: {
+          x: numberPosition.x,
+          label: mainLabel,
+          labelY,
+          labelColor: theme.label,
+          labelFontSize: 16 * k,
+          subLabel: secondary,
+          subLabelY,
+          subLabelColor: theme.subLabel,
+          subLabelFontSize: 12 * k,
+        },
+        sparkline: sparkline && { points: sparkline.coords, color: theme.sparkline, width: 1.5 * k },
+        legend: {
+          items: legendItems.map((item) => ({
+            x: item.swatchX,
+            textX: item.textX,
+            y: item.y,
+            color: item.color,
+            label: item.label,
+          })),
+          swatch: 10 * k,
+          fontSize: legendFontSize,
+          color: theme.subLabel,
+        },
+      }
+    : null;
+
+  // Repaint after every render and hand the animation loop a painter for in-between frames
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvasScene || !canvas) {
+      drawFrameRef.current = null;
+      return;
+    }
+    const ratio = window.devicePixelRatio || 1;
+    const backingWidth = Math.round(canvasScene.width * ratio);
+    const backingHeight = Math.round(canvasScene.height * ratio);
+    if (canvas.width !== backingWidth || canvas.height !== backingHeight) {
+      canvas.width = backingWidth;
+      canvas.height = backingHeight;
+    }
+    drawFrameRef.current = (percent) => drawSpeedometer(canvas, canvasScene, percent);
+    drawSpeedometer(canvas, canvasScene, displayRef.current);
+  });
+  useEffect(
+    () => () => {
+      drawFrameRef.current = null;
+    },
+    []
+  );
+
+  const svg = (
+    <svg
+      xmlns={staticRender ? "http://www.w3.org/2000/svg" : undefined}
+      width={width}
+      height={svgHeight}
+      viewBox={`0 0 ${width} ${svgHeight}`}
+      role={interactive ? "slider" : role}
+      aria-valuemin={min}
+      aria-valuemax={max}
+      aria-valuenow={showsValue ? targetValue : undefined}
+      aria-valuetext={ariaValueText}
+      aria-busy={status === "loading" || undefined}
+      aria-labelledby={titleId}
+      aria-describedby={secondary ? descId : undefined}
+      style={interactive ? { cursor: "pointer", touchAction: "none" } : undefined}
+      {...inputHandlers}
+    >
+      <title id={titleId}>{mainLabel}</title>
+      {secondary && <desc id={descId}>{secondary}</desc>}
+      <defs>
+        <linearGradient
+          id={gradientId}
+          gradientUnits="userSpaceOnUse"
+          x1={gradientFrom.x}
+          y1={gradientFrom.y}
+          x2={gradientTo.x}
+          y2={gradientTo.y}
+        >
+          {theme.gradientStops.map((stop, i) => (
+            <stop key={i} offset={stop.offset} stopColor={stop.color} />
+          ))}
+        </linearGradient>
+        {/* Vertical gradient for big percentage text */}
+        <linearGradient id={textGradientId} x1="0%" y1="0%" x2="0%" y2="100%">
+          <stop offset="0%" stopColor={theme.textGradient[0]} />
+          <stop offset="90%" stopColor={theme.textGradient[1]} />
+          <stop offset="100%" stopColor={theme.textGradient[1]} />
+        </linearGradient>
+
+        {/* Radial gradient for inner semicircle fade (opaque center -> transparent edge) */}
+        <radialGradient id={innerRadialId} gradientUnits="userSpaceOnUse" cx={centerX} cy={centerY} r={innerFillRadius}>
+          <stop offset="0%" stopColor={theme.backdrop} stopOpacity="1" />
+          <stop offset="70%" stopColor={theme.backdrop} stopOpacity="1" />
+          <stop offset="100%" stopColor={theme.backdrop} stopOpacity="0" />
+        </radialGradient>
+
+        {/* Needle cap gradient: flipped direction (transparent -> black along tangent) */}
+        <linearGradient id={needleCapGradId} x1="0%" y1="50%" x2="100%" y2="50%">
+          <stop offset="0%" stopColor={theme.needleCap} stopOpacity="0" />
+          <stop offset="100%" stopColor={theme.needleCap} stopOpacity="1" />
+        </linearGradient>
+        {markerShapes
+          .filter((m) => m.style === "needle")
+          .map((m) => (
+            <linearGradient key={m.key} id={`${needleCapGradId}-${m.index}`} x1="0%" y1="50%" x2="100%" y2="50%">
+              <stop offset="0%" stopColor={m.color} stopOpacity="0" />
+              <stop offset="100%" stopColor={m.color} stopOpacity="1" />
+            </linearGradient>
+          ))}
+
+        {/* Mask that reveals only the current progress arc with the same thickness */}
+        <mask id={conicMaskId} maskUnits="userSpaceOnUse" x="0" y="0" width={width} height={height}>
+          <path
+            d={arcPath}
+            fill="none"
+            stroke="#ffffff"
+            strokeWidth={trackStroke}
+            strokeLinecap="butt"
+            pathLength={100}
+            {...progressDash}
+          />
+        </mask>
+      </defs>
+
+      {variant === "segmented" ? (
+        <g pointerEvents="none">
+          {segmentBlocks.map((block) => (
+            <path
+              key={block.key}
+              d={block.d}
+              fill={block.lit ? block.color : status === "error" ? theme.error : theme.track}
+              fillOpacity={!block.lit && status === "error" ? errorTrackOpacity : undefined}
+              style={cssTransitions ? { transition: "fill 200ms ease-in-out" } : undefined}
+            />
+          ))}
+        </g>
+      ) : (
+        <>
+          {/* Background arc (theme track color) */}
+          <path
+            d={arcPath}
+            fill="none"
+            stroke={status === "error" ? theme.error : theme.track}
+            strokeOpacity={status === "error" ? errorTrackOpacity : undefined}
+            strokeWidth={trackStroke}
+            strokeLinecap="butt"
+            pathLength={100}
+          />
+
+          {/* Threshold zones: full track, or masked to the progress arc so they end at the needle */}
+          {hasZones && showsValue && (
+            <g mask={zoneMode === "progress" ? `url(#${conicMaskId})` : undefined} pointerEvents="none">
+              {zoneSegments.map((segment) => (
+                <path key={segment.key} d={segment.d} fill={segment.color}>
+                  {segment.label && <title>{segment.label}</title>}
+                </path>
+              ))}
+            </g>
+          )}
+
+          {/* Progress arc: use CSS conic gradient overlay when supported, otherwise fallback to SVG gradient stroke */}
+          {hasZones || !showsValue ? null : supportsConic ? (
+            <foreignObject x={0} y={0} width={width} height={height} mask={`url(#${conicMaskId})`} pointerEvents="none">
+              <div
+                style={{
+                  position: "relative",
+                  width: `${width}px`,
+                  height: `${height}px`,
+                }}
+              >
+                {/* Centered square covering the circle area so the sweep centers at the gauge center */}
+                <div
+                  style={{
+                    position: "absolute",
+                    left: `${centerX - outerRadius}px`,
+                    top: `${centerY - outerRadius}px`,
+                    width: `${outerRadius * 2}px`,
+                    height: `${outerRadius * 2}px`,
+                    borderRadius: "50%",
+                    // Conic gradient aligned to sweep across the extended arc
+                    backgroundImage:
+                      `conic-gradient(from ${conicFromDeg}deg, ${conicStops})`,
+                  }}
+                />
+              </div>
+            </foreignObject>
+          ) : (
             <path
               d={arcPath}
               fill="none"
-              stroke="#ffffff"
+              stroke={`url(#${gradientId})`}
               strokeWidth={trackStroke}
               strokeLinecap="butt"
               pathLength={100}
-              style={{
-                transition: !perpetual && !isAnimating ? "stroke-dasharray 600ms ease-in-out" : undefined,
-                strokeDasharray: `${progressPercent} ${100}`,
-                strokeDashoffset: 0,
-              }}
+              {...progressDash}
             />
-          </mask>
-        </defs>
+          )}
+        </>
+      )}
 
-        {/* Background arc (light gray) */}
+      {/* Loading: indeterminate sweep around the track (a plain skeleton track with reduced motion) */}
+      {status === "loading" && !reduceMotion && !staticRender && (
         <path
           d={arcPath}
           fill="none"
-          stroke={palette.bgArc}
+          stroke={theme.subLabel}
+          strokeOpacity={0.3}
           strokeWidth={trackStroke}
           strokeLinecap="butt"
           pathLength={100}
-        />
+          strokeDasharray="18 100"
+          pointerEvents="none"
+        >
+          <animate attributeName="stroke-dashoffset" values="18;-100" dur="1.4s" repeatCount="indefinite" />
+        </path>
+      )}
 
-        {/* Progress arc: use CSS conic gradient overlay when supported, otherwise fallback to SVG gradient stroke */}
-        {supportsConic ? (
-          <foreignObject x={0} y={0} width={width} height={height} mask={`url(#${conicMaskId})`} pointerEvents="none">
-            <div
-              style={{
-                position: "relative",
-                width: `${width}px`,
-                height: `${height}px`,
-              }}
-            >
-              {/* Centered square covering the circle area so the sweep centers at the gauge center */}
-              <div
-                style={{
-                  position: "absolute",
-                  left: `${centerX - outerRadius}px`,
-                  top: `${centerY - outerRadius}px`,
-                  width: `${outerRadius * 2}px`,
-                  height: `${outerRadius * 2}px`,
-                  borderRadius: "50%",
-                  // Conic gradient aligned to sweep across the extended arc
-                  backgroundImage:
-                    (() => {
-                      const mid = sweepDeg / 2;
-                      if (type === "free") {
-                        return `conic-gradient(from ${conicFromDeg}deg, #F1FAFF ${90-droopDeg*2}deg,rgb(84, 210, 255) ${mid}deg, #1378FB ${sweepDeg+90+droopDeg}deg)`;
-                      }
-                      return `conic-gradient(from ${conicFromDeg}deg,rgb(204, 232, 228) ${90-droopDeg*2}deg,rgb(138, 214, 196) ${mid}deg,rgb(0, 123, 10) ${sweepDeg+90+droopDeg}deg)`;
-                    })(),
-                }}
-              />
-            </div>
-          </foreignObject>
+      {/* Previous value ghost marker */}
+      {ghostPath && <path d={ghostPath} fill={theme.needle} fillOpacity={0.35} pointerEvents="none" />}
+
+      {/* Live peak hold markers (session min/max) */}
+      {peakMarkers.map((d, i) => (
+        <path key={i} d={d} fill={theme.needle} fillOpacity={0.6} pointerEvents="none" />
+      ))}
+
+      {/* Track markers (targets/benchmarks) and extra needles */}
+      {markerShapes.map((m) =>
+        m.style === "needle" ? (
+          renderNeedleGroup(m.key, m.angle, m.color, `url(#${needleCapGradId}-${m.index})`, !staticRender && !reduceMotion)
         ) : (
-          <path
-            d={arcPath}
-            fill="none"
-            stroke={`url(#${gradientId})`}
-            strokeWidth={trackStroke}
-            strokeLinecap="butt"
-            pathLength={100}
-            style={{
-              transition: !perpetual && !isAnimating ? "stroke-dasharray 600ms ease-in-out" : undefined,
-              strokeDasharray: `${progressPercent} ${100}`,
-              strokeDashoffset: 0,
-            }}
-          />
+          <path key={m.key} d={m.d} fill={m.color} pointerEvents="none" />
+        )
+      )}
+
+      {/* Needle: center-anchored line, oriented by angle */}
+      {showNeedle &&
+        showsValue &&
+        renderNeedleGroup(
+          "main",
+          angle,
+          theme.needle,
+          `url(#${needleCapGradId})`,
+          cssTransitions,
+          renderNeedle && (() => renderNeedle({ ...slotContext, angle, length: needleLength, color: theme.needle })),
+          status === "stale" ? staleNeedleOpacity : undefined
         )}
+      {/* Inner backdrop semicircle above needle, below hub/text */}
+      <path d={innerSemiPath} fill={`url(#${innerRadialId})`} />
+      {/* Backdrop rectangle below semicircle (above needle) */}
+      <rect
+        x={centerX - 6 * k}
+        y={centerY}
+        width={12 * k}
+        height={innerRectHeight}
+        fill={theme.backdrop}
+      />
 
-        
+     
 
-        {/* Needle: center-anchored line, oriented by angle */}
-        <g
-          style={{
-            transition: !perpetual && !isAnimating ? "transform 600ms ease-in-out" : undefined,
-            transformOrigin: `${centerX}px ${centerY}px`,
-            transform: `rotate(${angle}deg)`,
-          }}
-        >
-          <line
-            x1={centerX}
-            y1={centerY}
-            x2={centerX}
-            y2={centerY - needleLength}
-            stroke={palette.pointerStroke}
-            strokeWidth={3}
-            strokeLinecap="round"
-          />
-          {(() => {
-            // Align RIGHT edge of wedge to the needle (0°). Wedge spans from -capWidthDeg to 0°.
-            const radialOffset = 20; // keep current outward shift
-            const radialThickness = trackStroke * 0.3; // slimmer band
-            const capCenterR = trackRadius + radialOffset;
-            const capInnerR = capCenterR - radialThickness / 2;
-            const capOuterR = capCenterR + radialThickness / 2;
-            const capWidthDeg = 6.4; // total angular width of wedge
-            const startDeg = -capWidthDeg; // left edge
-            const endDeg = 0.65; // right edge aligned with needle
-            const d = buildRingWedgePathFromAngles(
-              centerX,
-              centerY,
-              capInnerR,
-              capOuterR,
-              startDeg,
-              endDeg
-            );
-            return <path d={d} fill="url(#needleCapGrad)" pointerEvents="none" />;
-          })()}
+      {/* Scale: tick marks and labels (above the backdrop so inside ticks stay visible) */}
+      {scaleMarks && (
+        <g pointerEvents="none">
+          {scaleMarks.ticks.map((t) => (
+            <line
+              key={t.key}
+              x1={t.x1}
+              y1={t.y1}
+              x2={t.x2}
+              y2={t.y2}
+              stroke={theme.tick}
+              strokeWidth={(t.major ? 1.5 : 1) * k}
+              strokeLinecap="round"
+            />
+          ))}
+          {scaleMarks.labels.map((l) => (
+            <text
+              key={l.key}
+              x={l.x}
+              y={l.y}
+              textAnchor="middle"
+              dominantBaseline="central"
+              fill={theme.tickLabel}
+              style={{
+                fontVariantNumeric: "tabular-nums",
+                fontFamily: theme.fontFamily,
+                fontSize: tickLabelFontSize,
+                fontWeight: 400,
+              }}
+            >
+              {l.text}
+            </text>
+          ))}
         </g>
-        {/* Inner white semicircle above needle, below hub/text */}
-        <path d={innerSemiPath} fill={`url(#${innerRadialId})`} />
-        {/* White rectangle below semicircle (above needle) */}
+      )}
+
+      {/* Big value number (or the renderCenter slot); a skeleton bar while loading */}
+      {renderCenter ? (
+        renderCenter({ ...slotContext, x: numberPosition.x, y: numberPosition.y, formattedValue: valueText, unit })
+      ) : status === "loading" ? (
         <rect
-          x={centerX - 6}
-          y={centerY}
-          width={12}
-          height={innerRectHeight}
-          fill="#ffffff"
+          x={numberPosition.x - 36 * k}
+          y={numberPosition.y - 14 * k}
+          width={72 * k}
+          height={28 * k}
+          rx={6 * k}
+          fill={theme.track}
         />
-
-       
-
-        {/* Big percentage number */}
+      ) : (
         <text
-          x={centerX}
-          y={centerY - radius * 0.35 + 8}
+          x={numberPosition.x}
+          y={numberPosition.y}
           textAnchor="middle"
+          direction={rtl ? "rtl" : undefined}
           dominantBaseline="central"
           fill={`url(#${textGradientId})`}
           style={{
             fontVariantNumeric: "lining-nums tabular-nums",
-            fontFamily: "Inter",
-            fontSize: "2.75rem",
+            fontFamily: theme.fontFamily,
+            fontSize: `${2.75 * k}rem`,
             fontStyle: "normal",
             fontWeight: 500,
-            lineHeight: "2.75rem",
+            lineHeight: `${2.75 * k}rem`,
           }}
         >
-          <tspan>{percentText.replace("%", "")}</tspan>
-          <tspan fontSize="1.1rem" dx="4" alignmentBaseline="central" dominantBaseline="central">%</tspan>
+          {unitBefore && showsValue && (
+            <tspan fontSize={`${1.1 * k}rem`} alignmentBaseline="central" dominantBaseline="central">
+              {unitSymbol}
+            </tspan>
+          )}
+          <tspan dx={unitBefore ? 4 * k : undefined}>{valueText}</tspan>
+          {unit && !unitBefore && showsValue && (
+            <tspan fontSize={`${1.1 * k}rem`} dx={4 * k} alignmentBaseline="central" dominantBaseline="central">
+              {unitSymbol}
+            </tspan>
+          )}
+          {deltaBadge && (
+            <tspan
+              fontSize={`${0.8 * k}rem`}
+              dx={6 * k}
+              alignmentBaseline="central"
+              dominantBaseline="central"
+              fill={deltaBadge.color}
+            >
+              {deltaBadge.text}
+            </tspan>
+          )}
         </text>
+      )}
 
-        {/* Label(s) below the number */}
-        <text
-          x={centerX}
-          y={centerY - radius * 0.15 + 16}
-          textAnchor="middle"
-          dominantBaseline="central"
-          fill="#000"
+      {/* Trend sparkline */}
+      {sparkline && (
+        <polyline
+          points={sparkline.points}
+          fill="none"
+          stroke={theme.sparkline}
+          strokeWidth={1.5 * k}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          pointerEvents="none"
+        />
+      )}
+
+      {/* Label(s) below the number (or the renderLabel slot) */}
+      {renderLabel ? (
+        renderLabel({
+          ...slotContext,
+          x: numberPosition.x,
+          y: labelY,
+          subLabelY,
+          label: mainLabel,
+          subLabel: secondary,
+        })
+      ) : (
+        <>
+          <text
+            x={numberPosition.x}
+            y={labelY}
+            textAnchor="middle"
+            direction={rtl ? "rtl" : undefined}
+            dominantBaseline="central"
+            fill={theme.label}
+            style={{
+              textAlign: "center",
+              fontFamily: theme.fontFamily,
+              fontSize: `${k}rem`,
+              fontStyle: "normal",
+              fontWeight: 400,
+              lineHeight: "normal",
+            }}
+          >
+            {mainLabel}
+          </text>
+          <text
+            x={numberPosition.x}
+            y={subLabelY}
+            textAnchor="middle"
+            direction={rtl ? "rtl" : undefined}
+            dominantBaseline="central"
+            fill={status === "error" ? theme.error : theme.subLabel}
+            style={{ fontFamily: theme.fontFamily, fontSize: 12 * k, fontWeight: 400 }}
+          >
+            {secondary}
+          </text>
+        </>
+      )}
+
+      {/* Legend */}
+      {legendItems.map((item) => (
+        <g key={item.key}>
+          <rect x={item.swatchX} y={item.y - 5 * k} width={10 * k} height={10 * k} rx={2 * k} fill={item.color} />
+          <text
+            x={item.textX}
+            y={item.y}
+            direction={rtl ? "rtl" : undefined}
+            dominantBaseline="central"
+            fill={theme.subLabel}
+            style={{ fontFamily: theme.fontFamily, fontSize: legendFontSize, fontWeight: 400 }}
+          >
+            {item.label}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+
+  if (staticRender) return svg;
+
+  return (
+    <div
+      ref={wrapperRef}
+      style={{ position: "relative", width: size === "fill" ? "100%" : width, userSelect: "none" }}
+    >
+      {canvasMode ? (
+        <canvas
+          ref={canvasRef}
+          role={interactive ? "slider" : role}
+          aria-valuemin={min}
+          aria-valuemax={max}
+          aria-valuenow={targetValue}
+          aria-valuetext={ariaValueText}
+          aria-label={secondary ? `${mainLabel}, ${secondary}` : mainLabel}
           style={{
-            textAlign: "center",
-            fontFamily: "Inter",
-            fontSize: "1rem",
-            fontStyle: "normal",
-            fontWeight: 400,
-            lineHeight: "normal",
+            display: "block",
+            width,
+            height: svgHeight,
+            ...(interactive ? { cursor: "pointer", touchAction: "none" } : undefined),
+          }}
+          {...inputHandlers}
+        />
+      ) : (
+        svg
+      )}
+      {/* Tooltip hit areas: a sibling layer, since meter and slider roles hide their children from assistive tech */}
+      {tooltipHitAreas && (
+        <svg
+          width={width}
+          height={svgHeight}
+          viewBox={`0 0 ${width} ${svgHeight}`}
+          style={{
+            position: "absolute",
+            left: 0,
+            top: 0,
+            pointerEvents: "none",
+            cursor: interactive ? "pointer" : undefined,
+            touchAction: interactive ? "none" : undefined,
           }}
+          {...pointerInputHandlers}
         >
-          {mainLabel}
-        </text>
-        <text
-          x={centerX}
-          y={centerY - radius * 0.05}
-          textAnchor="middle"
-          dominantBaseline="central"
-          fill={palette.subText}
-          style={{ fontSize: 12, fontWeight: 400 }}
+          {tooltipHitAreas}
+        </svg>
+      )}
+      {activeTooltip && (
+        <div
+          id={tooltipId}
+          role="tooltip"
+          style={{
+            position: "absolute",
+            left: activeTooltip.x,
+            top: activeTooltip.y,
+            transform: "translate(-50%, calc(-100% - 8px))",
+            pointerEvents: "none",
+            zIndex: 1,
+            padding: "4px 8px",
+            borderRadius: 6,
+            background: theme.tooltip,
+            color: theme.tooltipText,
+            fontFamily: theme.fontFamily,
+            fontSize: 12,
+            lineHeight: 1.4,
+            whiteSpace: "nowrap",
+            direction: rtl ? "rtl" : undefined,
+          }}
         >
-          {secondary}
-        </text>
-      </svg>
+          {renderTooltip ? (
+            renderTooltip({
+              ...slotContext,
+              target: activeTooltip.target,
+              x: activeTooltip.x,
+              y: activeTooltip.y,
+              title: activeTooltip.title,
+              text: activeTooltip.text,
+            })
+          ) : (
+            <>
+              {activeTooltip.title && <div style={{ fontWeight: 600 }}>{activeTooltip.title}</div>}
+              <div style={{ fontVariantNumeric: "tabular-nums" }}>{activeTooltip.text}</div>
+            </>
+          )}
+        </div>
+      )}
+      {announce !== "off" && (
+        <span aria-live={announce} aria-atomic="true" style={visuallyHidden}>
+          {announcement}
+        </span>
+      )}
     </div>
   );
 }
@@ -0,0 +1,84 @@
+import { cleanup, render } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import SpeedometerV2 from "./SpeedometerV2";
+import { renderSpeedometerSvg, type StaticSpeedometerProps } from "./renderSpeedometerSvg";
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+});
+
+// Standalone SVGs always take the native linear-gradient fallback, so these pin that branch
+describe("renderSpeedometerSvg", () => {
+  const cases: [string, StaticSpeedometerProps][] = [
+    ["pro at 0", { type: "pro", endValue: 0 }],
+    ["pro at 37", { type: "pro", endValue: 37 }],
+    ["pro at 100", { type: "pro", endValue: 100 }],
+    ["free at 37", { type: "free", endValue: 37 }],
+    ["free at 82 in a 0-500 domain", { type: "free", min: 0, max: 500, endValue: 410, unit: "km/h" }],
+    [
+      "zones with a scale",
+      {
+        endValue: 64,
+        zones: [
+          { from: 0, to: 50, color: "#22c55e" },
+          { from: 50, to: 100, color: "#ef4444" },
+        ],
+        scale: { majorTicks: 5 },
+      },
+    ],
+    ["segmented", { variant: "segmented", endValue: 55 }],
+    ["full ring", { variant: "arc", startAngle: 0, endAngle: 360, endValue: 75 }],
+  ];
+
+  it.each(cases)("%s", (_, props) => {
+    expect(renderSpeedometerSvg(props)).toMatchSnapshot();
+  });
+
+  it("is deterministic", () => {
+    const props: StaticSpeedometerProps = { endValue: 42, label: "CPU" };
+    expect(renderSpeedometerSvg(props)).toBe(renderSpeedometerSvg(props));
+  });
+
+  it("never emits HTML", () => {
+    const svg = renderSpeedometerSvg({ endValue: 42 });
+    expect(svg).not.toContain("foreignObject");
+    expect(svg).toContain("<linearGradient");
+  });
+
+  it("never emits input attributes", () => {
+    // @ts-expect-error input mode is not part of the static props
+    const svg = renderSpeedometerSvg({ endValue: 42, interactive: true });
+    expect(svg).not.toContain("tabindex");
+    expect(svg).not.toContain('role="slider"');
+  });
+});
+
+// Client useId values depend on how many gauges rendered before; number them by first appearance instead
+const stableIds = (html: string) => {
+  const ids = new Map<string, string>();
+  return html.replace(/_r_[0-9a-z]+_/g, (id) => {
+    if (!ids.has(id)) ids.set(id, `id${ids.size}`);
+    return ids.get(id)!;
+  });
+};
+
+// In the browser the progress arc is a CSS conic gradient masked to the track, when the engine supports it
+describe("progress gradient in the DOM", () => {
+  const renderGauge = (endValue: number) =>
+    render(<SpeedometerV2 startValue={0} endValue={endValue} animateOnMount={false} />).container;
+
+  it("uses a masked conic gradient when supported", () => {
+    vi.stubGlobal("CSS", { supports: () => true });
+    const container = renderGauge(64);
+    expect(container.querySelector("foreignObject")).not.toBeNull();
+    expect(stableIds(container.innerHTML)).toMatchSnapshot();
+  });
+
+  it("falls back to the linear gradient otherwise", () => {
+    vi.stubGlobal("CSS", { supports: () => false });
+    const container = renderGauge(64);
+    expect(container.querySelector("foreignObject")).toBeNull();
+    expect(stableIds(container.innerHTML)).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,44 @@
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import SpeedometerV2, { type SpeedometerV2Props } from "./SpeedometerV2";
+import { StaticRenderContext } from "./speedometerRenderContext";
+
+// Props that only make sense for a live, interactive gauge are left out
+export type StaticSpeedometerProps = Omit<
+  SpeedometerV2Props,
+  | "ref"
+  | "size"
+  | "source"
+  | "live"
+  | "announce"
+  | "reducedMotion"
+  | "animation"
+  | "animateOnMount"
+  | "onAnimationStart"
+  | "onAnimationEnd"
+  | "onValueChange"
+  | "interactive"
+  | "step"
+  | "onChange"
+  | "onChangeCommitted"
+> & {
+  size?: number; // width in px (default 300)
+};
+
+export interface RenderSpeedometerSvgOptions {
+  idPrefix?: string; // prefix for gradient/mask ids; use distinct prefixes when inlining several SVGs in one document
+  xmlDeclaration?: boolean; // prepend <?xml ...?> for writing .svg files (default false)
+}
+
+// Render a gauge at its final value as a standalone SVG document string (native SVG gradients only, no HTML).
+// Works in Node, e.g. for PDF reports and emails. Input mode is forced off for untyped callers too.
+export const renderSpeedometerSvg = (
+  props: StaticSpeedometerProps,
+  options: RenderSpeedometerSvgOptions = {}
+): string => {
+  const markup = renderToStaticMarkup(
+    createElement(StaticRenderContext.Provider, { value: true }, createElement(SpeedometerV2, { ...props, interactive: false })),
+    { identifierPrefix: options.idPrefix ?? "speedometer-" }
+  );
+  return options.xmlDeclaration ? `<?xml version="1.0" encoding="UTF-8"?>\n${markup}` : markup;
+};
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  createWaveformSampler,
+  easings,
+  isSpringSettled,
+  resolveAnimation,
+  stepSpring,
+  type ResolvedSpring,
+  type ResolvedTween,
+} from "./speedometerAnimation";
+
+describe("easings", () => {
+  it("start at 0 and end at 1", () => {
+    for (const easing of Object.values(easings)) {
+      expect(easing(0)).toBeCloseTo(0);
+      expect(easing(1)).toBeCloseTo(1);
+    }
+  });
+
+  it("only overshoot runs past the target", () => {
+    const samples = (easing: (t: number) => number) => Array.from({ length: 101 }, (_, i) => easing(i / 100));
+    expect(Math.max(...samples(easings.overshoot))).toBeGreaterThan(1);
+    expect(Math.max(...samples(easings.irregular))).toBeLessThanOrEqual(1);
+    expect(Math.max(...samples(easings.easeOut))).toBeLessThanOrEqual(1);
+  });
+});
+
+describe("resolveAnimation", () => {
+  it("defaults to the irregular tween with an initial boost", () => {
+    const { motion, waveform, periodMs } = resolveAnimation();
+    const tween = motion as ResolvedTween;
+    expect(tween.type).toBe("tween");
+    expect(tween.easing).toBe(easings.irregular);
+    expect(tween.initialBoost).toBe(6);
+    expect(waveform).toBe("sine");
+    expect(periodMs).toBe(5200);
+  });
+
+  it("scales tween duration with distance between the bounds", () => {
+    const tween = resolveAnimation("easeOut").motion as ResolvedTween;
+    expect(tween.initialBoost).toBe(0);
+    expect(tween.durationFor(50)).toBe(1200);
+    expect(tween.durationFor(-50)).toBe(1200);
+    expect(tween.durationFor(1)).toBe(180);
+    expect(tween.durationFor(100)).toBe(2400);
+    expect((resolveAnimation({ perPercentMs: 40 }).motion as ResolvedTween).durationFor(100)).toBe(2600);
+    expect((resolveAnimation({ durationMs: 500 }).motion as ResolvedTween).durationFor(5)).toBe(500);
+  });
+
+  it("resolves spring shorthand and overrides", () => {
+    expect(resolveAnimation("spring").motion).toEqual({ type: "spring", stiffness: 170, damping: 26, mass: 1 });
+    expect(resolveAnimation({ type: "spring", stiffness: 300, periodMs: 1000 })).toMatchObject({
+      motion: { stiffness: 300 },
+      periodMs: 1000,
+    });
+  });
+});
+
+describe("stepSpring", () => {
+  const spring = resolveAnimation("spring").motion as ResolvedSpring;
+
+  it("settles on the target", () => {
+    let state = { position: 0, velocity: 0 };
+    let frames = 0;
+    while (!isSpringSettled(state, 80) && frames < 600) {
+      state = stepSpring(state, 80, 16, spring);
+      frames++;
+    }
+    expect(isSpringSettled(state, 80)).toBe(true);
+    expect(frames).toBeLessThan(120);
+  });
+
+  it("caps long frames so a background tab can't blow it up", () => {
+    const once = stepSpring({ position: 0, velocity: 0 }, 100, 5000, spring);
+    const capped = stepSpring({ position: 0, velocity: 0 }, 100, 64, spring);
+    expect(once).toEqual(capped);
+  });
+});
+
+describe("createWaveformSampler", () => {
+  it("samples a sine over the period", () => {
+    const sample = createWaveformSampler("sine", 1000);
+    expect(sample(0)).toBeCloseTo(0);
+    expect(sample(250)).toBeCloseTo(1);
+    expect(sample(750)).toBeCloseTo(-1);
+  });
+
+  it("samples a triangle over the period", () => {
+    const sample = createWaveformSampler("triangle", 1000);
+    expect(sample(125)).toBeCloseTo(0.5);
+    expect(sample(250)).toBeCloseTo(1);
+    expect(sample(500)).toBeCloseTo(0);
+    expect(sample(1750)).toBeCloseTo(-1);
+  });
+
+  it("keeps jitter within -1..1", () => {
+    const sample = createWaveformSampler("jitter", 400);
+    for (let ms = 0; ms < 20000; ms += 16) {
+      const v = sample(ms);
+      expect(v).toBeGreaterThanOrEqual(-1);
+      expect(v).toBeLessThanOrEqual(1);
+    }
+  });
+});
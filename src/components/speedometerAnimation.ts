@@ -0,0 +1,162 @@
+export type EasingFunction = (t: number) => number;
+
+export type EasingPreset = "linear" | "easeOut" | "overshoot" | "irregular";
+
+export type Waveform = "sine" | "triangle" | "jitter";
+
+interface PerpetualOptions {
+  waveform?: Waveform; // perpetual sway shape (default "sine")
+  periodMs?: number; // one full sway cycle (default 5200)
+}
+
+export interface TweenAnimationConfig extends PerpetualOptions {
+  type?: "tween";
+  easing?: EasingPreset | EasingFunction; // default "irregular"
+  durationMs?: number; // fixed duration; otherwise scales with distance
+  perPercentMs?: number; // default 24
+  minDurationMs?: number; // default 180
+  maxDurationMs?: number; // default 2600
+  initialBoost?: number; // max jump toward the target before easing, in percent (default 6 for "irregular", else 0)
+}
+
+export interface SpringAnimationConfig extends PerpetualOptions {
+  type: "spring";
+  stiffness?: number; // default 170
+  damping?: number; // default 26
+  mass?: number; // default 1
+}
+
+// Preset name shorthand, or a full tween/spring config
+export type SpeedometerAnimation = EasingPreset | "spring" | TweenAnimationConfig | SpringAnimationConfig;
+
+export interface ResolvedTween {
+  type: "tween";
+  easing: EasingFunction;
+  initialBoost: number;
+  durationFor: (deltaPercent: number) => number;
+}
+
+export interface ResolvedSpring {
+  type: "spring";
+  stiffness: number;
+  damping: number;
+  mass: number;
+}
+
+export interface ResolvedAnimation {
+  motion: ResolvedTween | ResolvedSpring;
+  waveform: Waveform;
+  periodMs: number;
+}
+
+export const easings: Record<EasingPreset, EasingFunction> = {
+  linear: (t) => t,
+  easeOut: (t) => 1 - Math.pow(1 - t, 3),
+  // easeOutBack: runs past the target, then settles back
+  overshoot: (t) => {
+    const c1 = 1.70158;
+    const c3 = c1 + 1;
+    return 1 + c3 * Math.pow(t - 1, 3) + c1 * Math.pow(t - 1, 2);
+  },
+  // Irregular easing: quicker start with a subtle damped wobble
+  irregular: (t) => {
+    const fastStart = 1 - Math.pow(1 - t, 2.1); // faster at the beginning
+    const wobble = 0.025 * Math.sin(t * Math.PI * 1.25) * (1 - t); // small, damped
+    const v = fastStart + wobble;
+    return v < 0 ? 0 : v > 1 ? 1 : v;
+  },
+};
+
+const isPreset = (value: unknown): value is EasingPreset => typeof value === "string" && value in easings;
+
+export const resolveAnimation = (animation: SpeedometerAnimation = "irregular"): ResolvedAnimation => {
+  const config: TweenAnimationConfig | SpringAnimationConfig =
+    typeof animation === "string" ? (animation === "spring" ? { type: "spring" } : { easing: animation }) : animation;
+  const waveform = config.waveform ?? "sine";
+  const periodMs = config.periodMs ?? 5200;
+
+  if (config.type === "spring") {
+    return {
+      motion: {
+        type: "spring",
+        stiffness: config.stiffness ?? 170,
+        damping: config.damping ?? 26,
+        mass: config.mass ?? 1,
+      },
+      waveform,
+      periodMs,
+    };
+  }
+
+  const easingInput = config.easing ?? "irregular";
+  const easing = isPreset(easingInput) ? easings[easingInput] : easingInput;
+  const perPercentMs = config.perPercentMs ?? 24;
+  const minDurationMs = config.minDurationMs ?? 180;
+  const maxDurationMs = config.maxDurationMs ?? 2600;
+  const { durationMs } = config;
+  return {
+    motion: {
+      type: "tween",
+      easing,
+      initialBoost: config.initialBoost ?? (easingInput === "irregular" ? 6 : 0),
+      durationFor: (deltaPercent) =>
+        durationMs ?? Math.min(maxDurationMs, Math.max(minDurationMs, Math.abs(deltaPercent) * perPercentMs)),
+    },
+    waveform,
+    periodMs,
+  };
+};
+
+export interface SpringState {
+  position: number;
+  velocity: number; // percent per second
+}
+
+// Advance a damped spring toward `target` by dtMs (semi-implicit Euler, fixed sub-steps for stability)
+export const stepSpring = (state: SpringState, target: number, dtMs: number, spring: ResolvedSpring): SpringState => {
+  const maxStepS = 1 / 240;
+  let remaining = Math.min(dtMs, 64) / 1000; // cap long frames (background tabs) so the spring can't explode
+  let { position, velocity } = state;
+  while (remaining > 0) {
+    const dt = Math.min(maxStepS, remaining);
+    const force = -spring.stiffness * (position - target) - spring.damping * velocity;
+    velocity += (force / spring.mass) * dt;
+    position += velocity * dt;
+    remaining -= dt;
+  }
+  return { position, velocity };
+};
+
+export const isSpringSettled = (state: SpringState, target: number): boolean =>
+  Math.abs(state.position - target) < 0.01 && Math.abs(state.velocity) < 0.05;
+
+// Sway samplers return -1..1 for the elapsed time; "jitter" keeps random-walk state between calls
+export const createWaveformSampler = (waveform: Waveform, periodMs: number) => {
+  if (waveform === "sine") {
+    return (elapsedMs: number) => Math.sin((elapsedMs / periodMs) * Math.PI * 2);
+  }
+  if (waveform === "triangle") {
+    return (elapsedMs: number) => {
+      const p = (((elapsedMs / periodMs) % 1) + 1) % 1;
+      return p < 0.25 ? 4 * p : p < 0.75 ? 2 - 4 * p : 4 * p - 4;
+    };
+  }
+  let x = 0;
+  let velocity = 0;
+  let lastMs: number | null = null;
+  const speed = 4 / periodMs; // roughly one full range per quarter period
+  return (elapsedMs: number) => {
+    const dt = lastMs === null ? 0 : Math.min(64, Math.max(0, elapsedMs - lastMs));
+    lastMs = elapsedMs;
+    velocity = velocity * 0.9 + (Math.random() * 2 - 1) * 0.3 * speed; // low-pass filtered noise
+    x += velocity * dt;
+    if (x > 1) {
+      x = 2 - x;
+      velocity = -velocity;
+    } else if (x < -1) {
+      x = -2 - x;
+      velocity = -velocity;
+    }
+    return x;
+  };
+};
@@ -0,0 +1,291 @@
+import { buildArcPath, buildRingWedgePathFromAngles, mapPercentToAngle } from "./speedometerGeometry";
+import type { GradientStop } from "./speedometerThemes";
+
+// Everything the canvas renderer draws, precomputed by the component from the same geometry as the SVG.
+// Only the needle, progress arc, lit blocks and number depend on the percent passed to drawSpeedometer.
+export interface CanvasScene {
+  width: number;
+  height: number; // including the legend
+  fontFamily: string;
+  direction: "ltr" | "rtl";
+  centerX: number;
+  centerY: number;
+  trackRadius: number;
+  trackWidth: number;
+  startAngle: number;
+  endAngle: number;
+  trackColor: string;
+  arcPath: string;
+  progress: {
+    visible: boolean; // false when zones replace the gradient
+    conicFrom: number; // degrees; conic gradients always run clockwise
+    conicStops: { at: number; color: string }[]; // degrees after conicFrom
+    linear: [number, number, number, number]; // fallback gradient line x1, y1, x2, y2
+    stops: GradientStop[];
+  };
+  zones: { from: number; to: number; color: string }[]; // percent of the domain
+  zonesFollowProgress: boolean; // zoneMode "progress"
+  segments: { d: string; color: string; from: number }[] | null;
+  overlays: { d: string; color: string; opacity: number }[]; // ghost, peak and track markers
+  extraNeedles: { angle: number; color: string }[];
+  needle: {
+    visible: boolean;
+    opacity: number; // faded when the reading is stale
+    color: string;
+    capColor: string;
+    capPath: string; // cap wedge at 0°
+    capSpan: [number, number]; // x range of the cap gradient (transparent -> opaque)
+    length: number;
+    width: number;
+  };
+  backdrop: {
+    path: string;
+    color: string;
+    radius: number; // radial fade
+    rect: [number, number, number, number];
+  };
+  scale: {
+    ticks: { x1: number; y1: number; x2: number; y2: number; major: boolean }[];
+    labels: { x: number; y: number; text: string }[];
+    tickColor: string;
+    labelColor: string;
+    fontSize: number;
+    lineScale: number;
+  } | null;
+  number: {
+    x: number;
+    y: number;
+    fontSize: number;
+    gradient: [string, string];
+    format: (percent: number) => string;
+    unit: string; // localized symbol, "" for none
+    unitBefore: boolean; // e.g. "%50"
+    unitFontSize: number;
+    unitGap: number;
+    badge: { text: string; color: string; fontSize: number; gap: number } | null;
+  };
+  labels: {
+    x: number;
+    label: string;
+    labelY: number;
+    labelColor: string;
+    labelFontSize: number;
+    subLabel: string;
+    subLabelY: number;
+    subLabelColor: string;
+    subLabelFontSize: number;
+  };
+  sparkline: { points: [number, number][]; color: string; width: number } | null;
+  legend: {
+    items: { x: number; textX: number; y: number; color: string; label: string }[]; // textX: start edge
+    swatch: number;
+    fontSize: number;
+    color: string;
+  };
+}
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+const font = (weight: number, size: number, family: string) => `${weight} ${size}px ${family}`;
+
+// Conic gradients (0 = 3 o'clock in canvas) where supported, otherwise the linear start -> end fallback
+const progressGradient = (ctx: CanvasRenderingContext2D, scene: CanvasScene): CanvasGradient => {
+  const { progress, centerX, centerY } = scene;
+  if (typeof ctx.createConicGradient === "function") {
+    const gradient = ctx.createConicGradient(toRad(progress.conicFrom - 90), centerX, centerY);
+    for (const stop of progress.conicStops) gradient.addColorStop(Math.min(1, stop.at / 360), stop.color);
+    return gradient;
+  }
+  const gradient = ctx.createLinearGradient(...progress.linear);
+  for (const stop of progress.stops) gradient.addColorStop(stop.offset, stop.color);
+  return gradient;
+};
+
+const drawNeedle = (
+  ctx: CanvasRenderingContext2D,
+  scene: CanvasScene,
+  angle: number,
+  color: string,
+  capColor: string
+) => {
+  const { centerX, centerY, needle } = scene;
+  ctx.save();
+  ctx.translate(centerX, centerY);
+  ctx.rotate(toRad(angle));
+  ctx.translate(-centerX, -centerY);
+  ctx.strokeStyle = color;
+  ctx.lineWidth = needle.width;
+  ctx.lineCap = "round";
+  ctx.beginPath();
+  ctx.moveTo(centerX, centerY);
+  ctx.lineTo(centerX, centerY - needle.length);
+  ctx.stroke();
+  const cap = ctx.createLinearGradient(needle.capSpan[0], 0, needle.capSpan[1], 0);
+  cap.addColorStop(0, "transparent");
+  cap.addColorStop(1, capColor);
+  ctx.fillStyle = cap;
+  ctx.fill(new Path2D(needle.capPath));
+  ctx.restore();
+};
+
+// Paint one frame. The canvas backing store is sized by the caller (width/height times devicePixelRatio).
+export const drawSpeedometer = (canvas: HTMLCanvasElement, scene: CanvasScene, percent: number) => {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+  const ratio = canvas.width / scene.width;
+  ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+  ctx.clearRect(0, 0, scene.width, scene.height);
+
+  const { centerX, centerY, trackRadius, trackWidth, startAngle, endAngle } = scene;
+  const angle = mapPercentToAngle(percent, startAngle, endAngle);
+  const innerR = trackRadius - trackWidth / 2;
+  const outerR = trackRadius + trackWidth / 2;
+
+  // Track, zones and progress (or the segmented blocks)
+  if (scene.segments) {
+    for (const block of scene.segments) {
+      ctx.fillStyle = percent > block.from ? block.color : scene.trackColor;
+      ctx.fill(new Path2D(block.d));
+    }
+  } else {
+    ctx.lineCap = "butt";
+    ctx.lineWidth = trackWidth;
+    ctx.strokeStyle = scene.trackColor;
+    ctx.stroke(new Path2D(scene.arcPath));
+    for (const zone of scene.zones) {
+      const to = scene.zonesFollowProgress ? Math.min(zone.to, percent) : zone.to;
+      if (to <= zone.from) continue;
+      ctx.fillStyle = zone.color;
+      ctx.fill(
+        new Path2D(
+          buildRingWedgePathFromAngles(
+            centerX,
+            centerY,
+            innerR,
+            outerR,
+            mapPercentToAngle(zone.from, startAngle, endAngle),
+            mapPercentToAngle(to, startAngle, endAngle)
+          )
+        )
+      );
+    }
+    if (scene.progress.visible && percent > 0) {
+      ctx.strokeStyle = progressGradient(ctx, scene);
+      ctx.stroke(new Path2D(buildArcPath(centerX, centerY, trackRadius, startAngle, angle)));
+    }
+  }
+
+  for (const overlay of scene.overlays) {
+    ctx.globalAlpha = overlay.opacity;
+    ctx.fillStyle = overlay.color;
+    ctx.fill(new Path2D(overlay.d));
+  }
+  ctx.globalAlpha = 1;
+
+  for (const extra of scene.extraNeedles) drawNeedle(ctx, scene, extra.angle, extra.color, extra.color);
+  if (scene.needle.visible) {
+    ctx.globalAlpha = scene.needle.opacity;
+    drawNeedle(ctx, scene, angle, scene.needle.color, scene.needle.capColor);
+    ctx.globalAlpha = 1;
+  }
+
+  // Backdrop above the needle, below the text
+  const { backdrop } = scene;
+  if (backdrop.radius > 0) {
+    const fade = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, backdrop.radius);
+    fade.addColorStop(0, backdrop.color);
+    fade.addColorStop(0.7, backdrop.color);
+    fade.addColorStop(1, "transparent");
+    ctx.fillStyle = fade;
+    ctx.fill(new Path2D(backdrop.path));
+  }
+  ctx.fillStyle = backdrop.color;
+  ctx.fillRect(...backdrop.rect);
+
+  if (scene.scale) {
+    const { scale } = scene;
+    ctx.strokeStyle = scale.tickColor;
+    ctx.lineCap = "round";
+    for (const t of scale.ticks) {
+      ctx.lineWidth = (t.major ? 1.5 : 1) * scale.lineScale;
+      ctx.beginPath();
+      ctx.moveTo(t.x1, t.y1);
+      ctx.lineTo(t.x2, t.y2);
+      ctx.stroke();
+    }
+    ctx.fillStyle = scale.labelColor;
+    ctx.font = font(400, scale.fontSize, scene.fontFamily);
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    for (const l of scale.labels) ctx.fillText(l.text, l.x, l.y);
+  }
+
+  // Number, unit and change badge laid out as one centered run (parts are placed by hand, so apply the
+  // bidi result ourselves: in RTL, Arabic-script digits put the unit on their left)
+  ctx.textBaseline = "middle";
+  ctx.direction = "ltr";
+  const { number } = scene;
+  const numberText = number.format(percent);
+  const unitPart = number.unit
+    ? [{ text: number.unit, size: number.unitFontSize, weight: 500, gap: 0, color: null as string | null }]
+    : [];
+  const numberPart = [{ text: numberText, size: number.fontSize, weight: 500, gap: 0, color: null as string | null }];
+  const run = number.unitBefore ? [...unitPart, ...numberPart] : [...numberPart, ...unitPart];
+  if (scene.direction === "rtl" && /[\u0600-\u06ff]/.test(numberText)) run.reverse();
+  const parts = [
+    ...run.map((part, i) => ({ ...part, gap: i > 0 ? number.unitGap : 0 })),
+    ...(number.badge
+      ? [{ ...number.badge, size: number.badge.fontSize, weight: 500 }]
+      : []),
+  ].map((part) => {
+    ctx.font = font(part.weight, part.size, scene.fontFamily);
+    return { ...part, width: ctx.measureText(part.text).width };
+  });
+  const total = parts.reduce((sum, part) => sum + part.gap + part.width, 0);
+  const textFill = ctx.createLinearGradient(0, number.y - number.fontSize / 2, 0, number.y + number.fontSize / 2);
+  textFill.addColorStop(0, number.gradient[0]);
+  textFill.addColorStop(0.9, number.gradient[1]);
+  textFill.addColorStop(1, number.gradient[1]);
+  ctx.textAlign = "left";
+  let x = number.x - total / 2;
+  for (const part of parts) {
+    x += part.gap;
+    ctx.font = font(part.weight, part.size, scene.fontFamily);
+    ctx.fillStyle = part.color ?? textFill;
+    ctx.fillText(part.text, x, number.y);
+    x += part.width;
+  }
+
+  if (scene.sparkline) {
+    const { sparkline } = scene;
+    ctx.strokeStyle = sparkline.color;
+    ctx.lineWidth = sparkline.width;
+    ctx.lineJoin = "round";
+    ctx.lineCap = "round";
+    ctx.beginPath();
+    sparkline.points.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+    ctx.stroke();
+  }
+
+  const { labels } = scene;
+  ctx.direction = scene.direction;
+  ctx.textAlign = "center";
+  ctx.fillStyle = labels.labelColor;
+  ctx.font = font(400, labels.labelFontSize, scene.fontFamily);
+  ctx.fillText(labels.label, labels.x, labels.labelY);
+  ctx.fillStyle = labels.subLabelColor;
+  ctx.font = font(400, labels.subLabelFontSize, scene.fontFamily);
+  ctx.fillText(labels.subLabel, labels.x, labels.subLabelY);
+
+  const { legend } = scene;
+  ctx.textAlign = "start";
+  ctx.font = font(400, legend.fontSize, scene.fontFamily);
+  for (const item of legend.items) {
+    ctx.fillStyle = item.color;
+    ctx.beginPath();
+    ctx.roundRect(item.x, item.y - legend.swatch / 2, legend.swatch, legend.swatch, legend.swatch / 5);
+    ctx.fill();
+    ctx.fillStyle = legend.color;
+    ctx.fillText(item.label, item.textX, item.y);
+  }
+};
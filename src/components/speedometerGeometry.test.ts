@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildArcPath,
+  buildRingWedgePathFromAngles,
+  clampPercentage,
+  clampValue,
+  layoutArc,
+  mapAngleToPercent,
+  mapPercentToAngle,
+  percentToValue,
+  polarPoint,
+  valueToPercent,
+} from "./speedometerGeometry";
+
+// Parse the numbers out of a path so assertions don't depend on float formatting
+const numbers = (d: string) => (d.match(/-?\d+(\.\d+)?(e-?\d+)?/g) ?? []).map(Number);
+
+describe("domain helpers", () => {
+  it("clamps percentages and maps NaN to 0", () => {
+    expect(clampPercentage(-5)).toBe(0);
+    expect(clampPercentage(42)).toBe(42);
+    expect(clampPercentage(120)).toBe(100);
+    expect(clampPercentage(NaN)).toBe(0);
+  });
+
+  it("clamps values into the domain and maps NaN to min", () => {
+    expect(clampValue(-1, 10, 20)).toBe(10);
+    expect(clampValue(25, 10, 20)).toBe(20);
+    expect(clampValue(NaN, 10, 20)).toBe(10);
+  });
+
+  it("converts between domain values and percent", () => {
+    expect(valueToPercent(150, 100, 200)).toBe(50);
+    expect(valueToPercent(250, 100, 200)).toBe(100);
+    expect(valueToPercent(5, 10, 10)).toBe(0); // empty domain
+    expect(percentToValue(25, -100, 100)).toBe(-50);
+    expect(percentToValue(valueToPercent(37, 0, 500), 0, 500)).toBeCloseTo(37);
+  });
+});
+
+describe("angles", () => {
+  it("maps percent onto the sweep in either direction", () => {
+    expect(mapPercentToAngle(0)).toBe(-90);
+    expect(mapPercentToAngle(50)).toBe(0);
+    expect(mapPercentToAngle(100, -104, 104)).toBe(104);
+    expect(mapPercentToAngle(25, 90, -90)).toBe(45);
+  });
+
+  it("inverts mapPercentToAngle", () => {
+    for (const percent of [0, 12.5, 50, 99]) {
+      expect(mapAngleToPercent(mapPercentToAngle(percent, -104, 104), -104, 104)).toBeCloseTo(percent);
+      expect(mapAngleToPercent(mapPercentToAngle(percent, 120, -120), 120, -120)).toBeCloseTo(percent);
+    }
+  });
+
+  it("accepts pointer angles from any turn", () => {
+    expect(mapAngleToPercent(360, -90, 90)).toBeCloseTo(50);
+    expect(mapAngleToPercent(-315, -90, 90)).toBeCloseTo(75);
+  });
+
+  it("snaps angles in the gap to the nearer end", () => {
+    expect(mapAngleToPercent(120, -104, 104)).toBe(100);
+    expect(mapAngleToPercent(-150, -104, 104)).toBe(0);
+    expect(mapAngleToPercent(10, 0, 0)).toBe(0);
+  });
+
+  it("places 0° at 12 o'clock and turns clockwise", () => {
+    const top = polarPoint(100, 100, 50, 0);
+    const right = polarPoint(100, 100, 50, 90);
+    expect(top.x).toBeCloseTo(100);
+    expect(top.y).toBeCloseTo(50);
+    expect(right.x).toBeCloseTo(150);
+    expect(right.y).toBeCloseTo(100);
+  });
+});
+
+describe("buildArcPath", () => {
+  it("draws a half circle as one small-flag arc", () => {
+    const [x0, y0, rx, ry, rotation, large, sweep, x1, y1] = numbers(buildArcPath(150, 150, 100, -90, 90));
+    expect([x0, y0]).toEqual([50, expect.closeTo(150)]);
+    expect([rx, ry, rotation, large, sweep]).toEqual([100, 100, 0, 0, 1]);
+    expect([x1, y1]).toEqual([250, expect.closeTo(150)]);
+  });
+
+  it("sets the large-arc flag past 180° and flips the sweep flag counterclockwise", () => {
+    expect(numbers(buildArcPath(0, 0, 10, -104, 104)).slice(5, 7)).toEqual([1, 1]);
+    expect(numbers(buildArcPath(0, 0, 10, 104, -104)).slice(5, 7)).toEqual([1, 0]);
+    expect(numbers(buildArcPath(0, 0, 10, 30, -30)).slice(5, 7)).toEqual([0, 0]);
+  });
+
+  it("splits a full ring into two half arcs", () => {
+    const d = buildArcPath(50, 50, 40, 0, 360);
+    expect(d.match(/A/g)).toHaveLength(2);
+    const values = numbers(d);
+    expect(values[7]).toBeCloseTo(50); // halfway point at 6 o'clock
+    expect(values[8]).toBeCloseTo(90);
+    expect(values.at(-2)).toBeCloseTo(50); // back at 12 o'clock
+    expect(values.at(-1)).toBeCloseTo(10);
+  });
+});
+
+describe("buildRingWedgePathFromAngles", () => {
+  it("runs out along the outer edge and back along the inner edge", () => {
+    const d = buildRingWedgePathFromAngles(100, 100, 40, 60, 0, 90);
+    expect(d.startsWith("M 100 40 A 60 60 0 0 1 160 ")).toBe(true);
+    expect(d).toContain("L 140 ");
+    expect(d).toContain("A 40 40 0 0 0 100 60 Z");
+  });
+
+  it("reverses both arcs for counterclockwise wedges", () => {
+    const d = buildRingWedgePathFromAngles(0, 0, 40, 60, 200, -20);
+    expect(d).toContain("A 60 60 0 1 0");
+    expect(d).toContain("A 40 40 0 1 1");
+  });
+
+  it("rounds the corners with quadratic curves", () => {
+    const d = buildRingWedgePathFromAngles(100, 100, 40, 60, -30, 30, 4);
+    expect(d.match(/Q/g)).toHaveLength(4);
+    expect(d.trim().endsWith("Z")).toBe(true);
+  });
+});
+
+describe("layoutArc", () => {
+  it("fits the default gauge into 300px", () => {
+    const layout = layoutArc(300, -104, 104, 10, 16, 26, 14 * 1.5 / 2 + 16);
+    expect(layout.outerRadius).toBeCloseTo(140);
+    expect(layout.centerX).toBeCloseTo(150);
+    expect(layout.centerY).toBeCloseTo(156);
+    expect(layout.height).toBe(210);
+  });
+
+  it("keeps the hub inside the box for a narrow top arc", () => {
+    const layout = layoutArc(200, -30, 30, 0, 0, 0, 0);
+    expect(layout.outerRadius).toBeCloseTo(200); // chord of 60° equals the radius
+    expect(layout.centerX).toBeCloseTo(100);
+    expect(layout.centerY).toBeCloseTo(200);
+  });
+
+  it("sits a half circle on its hub", () => {
+    const layout = layoutArc(200, -90, 90, 0, 0, 0, 0);
+    expect(layout.outerRadius).toBeCloseTo(100);
+    expect(layout.centerY).toBeCloseTo(100);
+    expect(layout.height).toBe(100);
+  });
+
+  it("centers a full ring", () => {
+    const layout = layoutArc(220, 0, 360, 10, 10, 10, 0);
+    expect(layout.outerRadius).toBeCloseTo(100);
+    expect(layout.centerX).toBeCloseTo(110);
+    expect(layout.centerY).toBeCloseTo(110);
+    expect(layout.height).toBe(220);
+  });
+});
@@ -0,0 +1,173 @@
+// Arc and domain math shared by the SVG and canvas renderers.
+// Angles are degrees clockwise from 12 o'clock (like CSS rotate() and conic-gradient); y grows downward.
+
+export const clampPercentage = (value: number): number => {
+  if (Number.isNaN(value)) return 0;
+  if (value < 0) return 0;
+  if (value > 100) return 100;
+  return value;
+};
+
+export const clampValue = (value: number, min: number, max: number): number => {
+  if (Number.isNaN(value)) return min;
+  if (value < min) return min;
+  if (value > max) return max;
+  return value;
+};
+
+// Normalize a domain value to 0..100 so the arc/needle math stays domain-agnostic
+export const valueToPercent = (value: number, min: number, max: number): number => {
+  const span = max - min;
+  if (span <= 0) return 0;
+  return clampPercentage(((value - min) / span) * 100);
+};
+
+export const percentToValue = (percent: number, min: number, max: number): number => {
+  return min + ((max - min) * percent) / 100;
+};
+
+export const mapPercentToAngle = (percent: number, startDeg: number = -90, endDeg: number = 90): number => {
+  // Map 0..100 to startDeg..endDeg (either direction)
+  return startDeg + ((endDeg - startDeg) * percent) / 100;
+};
+
+// Inverse of mapPercentToAngle for a pointer angle (any turn); angles in the gap snap to the nearer end
+export const mapAngleToPercent = (angleDeg: number, startDeg: number = -90, endDeg: number = 90): number => {
+  const sweep = Math.abs(endDeg - startDeg);
+  if (sweep === 0) return 0;
+  const direction = endDeg >= startDeg ? 1 : -1;
+  const travelled = (((direction * (angleDeg - startDeg)) % 360) + 360) % 360; // 0..360 along the sweep
+  if (travelled <= sweep) return (travelled * 100) / sweep;
+  return travelled - sweep < 360 - travelled ? 100 : 0;
+};
+
+export const polarPoint = (cx: number, cy: number, r: number, angleDeg: number) => {
+  const a = (angleDeg * Math.PI) / 180;
+  return { x: cx + r * Math.sin(a), y: cy - r * Math.cos(a) };
+};
+
+// Centerline arc from startDeg to endDeg; a full ring is drawn as two halves (an SVG arc can't end where it starts)
+export const buildArcPath = (cx: number, cy: number, r: number, startDeg: number, endDeg: number): string => {
+  const sweep = endDeg - startDeg;
+  const flag = sweep >= 0 ? 1 : 0;
+  const p0 = polarPoint(cx, cy, r, startDeg);
+  const p1 = polarPoint(cx, cy, r, endDeg);
+  if (Math.abs(sweep) >= 360) {
+    const mid = polarPoint(cx, cy, r, startDeg + sweep / 2);
+    return `M ${p0.x} ${p0.y} A ${r} ${r} 0 0 ${flag} ${mid.x} ${mid.y} A ${r} ${r} 0 0 ${flag} ${p1.x} ${p1.y}`;
+  }
+  const large = Math.abs(sweep) > 180 ? 1 : 0;
+  return `M ${p0.x} ${p0.y} A ${r} ${r} 0 ${large} ${flag} ${p1.x} ${p1.y}`;
+};
+
+// Compass directions (multiples of 90°) the sweep passes through; with the ends they bound the arc
+const crossedQuadrants = (startDeg: number, endDeg: number): number[] => {
+  const lo = Math.min(startDeg, endDeg);
+  const hi = Math.max(startDeg, endDeg);
+  const result: number[] = [];
+  for (let a = Math.ceil(lo / 90) * 90; a <= hi; a += 90) result.push(a);
+  return result;
+};
+
+// Fit the arc's bounding box into `width`: outer radius, hub position and canvas height.
+// The hub always counts as inside the box so the text and needle hub have room.
+export const layoutArc = (
+  width: number,
+  startDeg: number,
+  endDeg: number,
+  padX: number, // each side
+  padTop: number,
+  padBottom: number,
+  endInset: number // outer edge -> track centerline; the square ends only reach the centerline
+) => {
+  const quadrants = crossedQuadrants(startDeg, endDeg);
+  const unit = (deg: number) => polarPoint(0, 0, 1, deg);
+  const xs = [0, ...[...quadrants, startDeg, endDeg].map((deg) => unit(deg).x)];
+  const outerRadius = (width - 2 * padX) / (Math.max(...xs) - Math.min(...xs));
+  const endRadius = outerRadius - endInset;
+  const ys = [
+    0,
+    ...quadrants.map((deg) => unit(deg).y * outerRadius),
+    ...[startDeg, endDeg].map((deg) => unit(deg).y * endRadius),
+  ];
+  const centerX = padX - Math.min(...xs) * outerRadius;
+  const centerY = padTop - Math.min(...ys);
+  const height = Math.ceil(centerY + Math.max(...ys) + padBottom);
+  return { outerRadius, centerX, centerY, height };
+};
+
+// Build a ring wedge between explicit angles (degrees)
+export const buildRingWedgePathFromAngles = (
+  cx: number,
+  cy: number,
+  innerR: number,
+  outerR: number,
+  startDeg: number,
+  endDeg: number,
+  cornerRadius: number = 0
+): string => {
+  if (cornerRadius > 0) return buildRoundedRingWedgePath(cx, cy, innerR, outerR, startDeg, endDeg, cornerRadius);
+  const a0 = (startDeg * Math.PI) / 180;
+  const a1 = (endDeg * Math.PI) / 180;
+  const sin0 = Math.sin(a0);
+  const cos0 = Math.cos(a0);
+  const sin1 = Math.sin(a1);
+  const cos1 = Math.cos(a1);
+
+  const xo0 = cx + outerR * sin0;
+  const yo0 = cy - outerR * cos0;
+  const xo1 = cx + outerR * sin1;
+  const yo1 = cy - outerR * cos1;
+
+  const xi1 = cx + innerR * sin1;
+  const yi1 = cy - innerR * cos1;
+  const xi0 = cx + innerR * sin0;
+  const yi0 = cy - innerR * cos0;
+
+  const large = Math.abs(endDeg - startDeg) > 180 ? 1 : 0;
+  const sweepOuter = endDeg >= startDeg ? 1 : 0; // draw from start -> end along increasing angle
+  const sweepInner = 1 - sweepOuter; // return opposite way
+
+  return [
+    `M ${xo0} ${yo0}`,
+    `A ${outerR} ${outerR} 0 ${large} ${sweepOuter} ${xo1} ${yo1}`,
+    `L ${xi1} ${yi1}`,
+    `A ${innerR} ${innerR} 0 ${large} ${sweepInner} ${xi0} ${yi0}`,
+    'Z',
+  ].join(' ');
+};
+
+// Ring wedge with rounded corners: edges are shortened by the radius and joined with quadratic curves
+const buildRoundedRingWedgePath = (
+  cx: number,
+  cy: number,
+  innerR: number,
+  outerR: number,
+  startDeg: number,
+  endDeg: number,
+  cornerRadius: number
+): string => {
+  const dir = endDeg >= startDeg ? 1 : -1;
+  const sweepRad = (Math.abs(endDeg - startDeg) * Math.PI) / 180;
+  // Never round past half the thickness or half the inner arc length
+  const rc = Math.min(cornerRadius, (outerR - innerR) / 2, (innerR * sweepRad) / 2);
+  const dOuter = dir * ((rc / outerR) * 180) / Math.PI;
+  const dInner = dir * ((rc / Math.max(innerR, rc)) * 180) / Math.PI;
+  const p = (r: number, deg: number) => {
+    const pt = polarPoint(cx, cy, r, deg);
+    return `${pt.x} ${pt.y}`;
+  };
+  const large = Math.abs(endDeg - startDeg) > 180 ? 1 : 0;
+  const sweepOuter = dir > 0 ? 1 : 0;
+  return [
+    `M ${p(outerR - rc, startDeg)}`,
+    `Q ${p(outerR, startDeg)} ${p(outerR, startDeg + dOuter)}`,
+    `A ${outerR} ${outerR} 0 ${large} ${sweepOuter} ${p(outerR, endDeg - dOuter)}`,
+    `Q ${p(outerR, endDeg)} ${p(outerR - rc, endDeg)}`,
+    `L ${p(innerR + rc, endDeg)}`,
+    `Q ${p(innerR, endDeg)} ${p(innerR, endDeg - dInner)}`,
+    `A ${innerR} ${innerR} 0 ${large} ${1 - sweepOuter} ${p(innerR, startDeg + dInner)}`,
+    `Q ${p(innerR, startDeg)} ${p(innerR + rc, startDeg)}`,
+    'Z',
+  ].join(' ');
+};
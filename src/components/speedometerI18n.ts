@@ -0,0 +1,44 @@
+import { createContext, useContext } from "react";
+
+// User-visible strings the component makes up itself; everything else comes from props
+export interface SpeedometerMessages {
+  proLabel: string; // default label for type="pro"
+  freeLabel: string; // default label for type="free"
+  announcement: (label: string, valueText: string) => string; // live-region text when `announce` is on
+  loading: string; // accessible value text while status="loading"
+  empty: string; // accessible value text when there is no data
+  error: string; // default status="error" message
+  stale: string; // status="stale" note when `lastUpdated` is not given
+  lastUpdated: (time: string) => string; // status="stale" note with the formatted `lastUpdated`
+}
+
+export const defaultSpeedometerMessages: SpeedometerMessages = {
+  proLabel: "Most Pro users",
+  freeLabel: "Your score",
+  announcement: (label, valueText) => `${label}: ${valueText}`,
+  loading: "Loading",
+  empty: "No data",
+  error: "Couldn't load data",
+  stale: "Data may be out of date",
+  lastUpdated: (time) => `Last updated ${time}`,
+};
+
+export type SpeedometerDirection = "ltr" | "rtl";
+
+export interface SpeedometerLocaleSettings {
+  locale?: string | string[]; // number formatting locale(s)
+  messages?: Partial<SpeedometerMessages>; // translated defaults
+  direction?: SpeedometerDirection; // "rtl" mirrors the sweep, text and legend
+}
+
+export const SpeedometerLocaleContext = createContext<SpeedometerLocaleSettings>({});
+
+export const useSpeedometerLocale = (): SpeedometerLocaleSettings => useContext(SpeedometerLocaleContext);
+
+// Where the locale puts the percent sign, with its spacing and symbol: "50%", "50 %", "%50", "٥٠٪"
+export const resolvePercentAffixes = (locale: string | string[] | undefined): { prefix: string; suffix: string } => {
+  const parts = new Intl.NumberFormat(locale, { style: "percent" }).formatToParts(0.5);
+  const number = parts.findIndex((part) => part.type === "integer");
+  const join = (list: Intl.NumberFormatPart[]) => list.map((part) => part.value).join("");
+  return { prefix: join(parts.slice(0, number)), suffix: join(parts.slice(number + 1)) };
+};
@@ -0,0 +1,65 @@
+import type { SpringState } from "./speedometerAnimation";
+
+type SampleListener = (value: number) => void;
+
+// Either a subscribe function returning an unsubscribe, or an observable-like object (e.g. an RxJS Subject)
+export type LiveSource =
+  | ((listener: SampleListener) => () => void)
+  | { subscribe: (listener: SampleListener) => { unsubscribe: () => void } | (() => void) };
+
+export type LiveSmoothing = "none" | "ema" | "critical";
+
+export interface LiveOptions {
+  smoothing?: LiveSmoothing; // default "critical"
+  smoothingMs?: number; // EMA time constant / critically-damped smooth time (default 250)
+  maxUpdatesPerSecond?: number; // caps React re-renders while following (default 30)
+  peakHold?: boolean; // mark the session min/max on the track (default false)
+  ariaIntervalMs?: number; // how often aria-valuenow follows a `source` (default 1000)
+}
+
+export interface ResolvedLiveOptions {
+  smoothing: LiveSmoothing;
+  smoothingMs: number;
+  commitIntervalMs: number;
+  peakHold: boolean;
+  ariaIntervalMs: number;
+}
+
+export const resolveLiveOptions = (options: LiveOptions = {}): ResolvedLiveOptions => ({
+  smoothing: options.smoothing ?? "critical",
+  smoothingMs: Math.max(1, options.smoothingMs ?? 250),
+  commitIntervalMs: 1000 / Math.max(1, options.maxUpdatesPerSecond ?? 30),
+  peakHold: options.peakHold ?? false,
+  ariaIntervalMs: Math.max(0, options.ariaIntervalMs ?? 1000),
+});
+
+export const subscribeToSource = (source: LiveSource, listener: SampleListener): (() => void) => {
+  if (typeof source === "function") return source(listener);
+  const subscription = source.subscribe(listener);
+  return typeof subscription === "function" ? subscription : () => subscription.unsubscribe();
+};
+
+// Exponential moving average with a time constant, so the result is independent of frame rate
+export const stepEma = (state: SpringState, target: number, dtMs: number, smoothingMs: number): SpringState => {
+  const position = state.position + (target - state.position) * (1 - Math.exp(-dtMs / smoothingMs));
+  return { position, velocity: 0 };
+};
+
+// Critically damped follow (no overshoot); closed-form approximation of a spring with damping ratio 1
+export const stepCriticallyDamped = (
+  state: SpringState,
+  target: number,
+  dtMs: number,
+  smoothingMs: number
+): SpringState => {
+  const omega = 2 / (smoothingMs / 1000);
+  const dt = Math.min(dtMs, 64) / 1000;
+  const x = omega * dt;
+  const decay = 1 / (1 + x + 0.48 * x * x + 0.235 * x * x * x);
+  const change = state.position - target;
+  const temp = (state.velocity + omega * change) * dt;
+  return {
+    position: target + (change + temp) * decay,
+    velocity: (state.velocity - omega * temp) * decay,
+  };
+};
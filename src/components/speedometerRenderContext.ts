@@ -0,0 +1,4 @@
+import { createContext } from "react";
+
+// True while rendering a standalone SVG (renderSpeedometerSvg): no HTML, no CSS animation, final value only
+export const StaticRenderContext = createContext<boolean>(false);
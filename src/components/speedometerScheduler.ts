@@ -0,0 +1,71 @@
+// One requestAnimationFrame loop shared by every gauge on the page. Callbacks are one-shot like rAF;
+// callbacks of a paused owner (off-screen gauge) wait until it resumes, and the loop sleeps while the tab is hidden.
+
+export type FrameCallback = (now: number) => void;
+
+export interface FrameOwner {
+  paused: boolean;
+}
+
+interface PendingFrame {
+  callback: FrameCallback;
+  owner: FrameOwner | undefined;
+}
+
+const pending = new Map<number, PendingFrame>();
+let nextId = 1;
+let rafId: number | null = null;
+let visibilityListening = false;
+
+const isHidden = () => typeof document !== "undefined" && document.visibilityState === "hidden";
+
+const hasRunnable = () => {
+  for (const frame of pending.values()) if (!frame.owner?.paused) return true;
+  return false;
+};
+
+const tick = (now: number) => {
+  rafId = null;
+  const due: PendingFrame[] = [];
+  for (const [id, frame] of pending) {
+    if (frame.owner?.paused) continue;
+    pending.delete(id);
+    due.push(frame);
+  }
+  for (const frame of due) frame.callback(now);
+  ensureLoop();
+};
+
+const ensureLoop = () => {
+  if (rafId !== null || isHidden() || !hasRunnable()) return;
+  rafId = requestAnimationFrame(tick);
+};
+
+const onVisibilityChange = () => {
+  if (isHidden()) {
+    if (rafId !== null) cancelAnimationFrame(rafId);
+    rafId = null;
+  } else {
+    ensureLoop();
+  }
+};
+
+export const requestFrame = (callback: FrameCallback, owner?: FrameOwner): number => {
+  if (!visibilityListening && typeof document !== "undefined") {
+    visibilityListening = true;
+    document.addEventListener("visibilitychange", onVisibilityChange);
+  }
+  const id = nextId++;
+  pending.set(id, { callback, owner });
+  ensureLoop();
+  return id;
+};
+
+export const cancelFrame = (id: number) => {
+  pending.delete(id);
+};
+
+export const setFrameOwnerPaused = (owner: FrameOwner, paused: boolean) => {
+  owner.paused = paused;
+  if (!paused) ensureLoop();
+};
@@ -0,0 +1,134 @@
+import { createContext, useContext } from "react";
+
+export type GaugeType = "pro" | "free";
+
+export type SpeedometerThemeName = GaugeType | "dark";
+
+export interface GradientStop {
+  offset: number; // 0 - 1 along the sweep, start (left) -> end (right)
+  color: string;
+}
+
+export interface SpeedometerTheme {
+  track: string; // background arc
+  gradientStops: GradientStop[]; // progress arc; used by both the conic layer and the SVG fallback
+  needle: string;
+  needleCap: string; // solid end of the cap wedge next to the needle
+  textGradient: [string, string]; // big number, top -> bottom
+  label: string;
+  subLabel: string;
+  tick: string; // scale tick marks
+  tickLabel: string; // scale labels
+  backdrop: string; // inner semicircle + rect behind the text
+  deltaUp: string; // change badge for increases
+  deltaDown: string; // change badge for decreases
+  sparkline: string; // history line under the number
+  error: string; // track tint and message for status="error"
+  tooltip: string; // tooltip background
+  tooltipText: string;
+  fontFamily: string;
+}
+
+// A preset name replaces the inherited theme; an object overrides individual fields
+export type SpeedometerThemeInput = SpeedometerThemeName | Partial<SpeedometerTheme>;
+
+const lightBase = {
+  track: "#e5e7eb", // gray-200
+  needle: "#111827", // gray-900
+  needleCap: "#000000",
+  textGradient: ["#000000", "#808080"],
+  label: "#000000",
+  subLabel: "#6b7280", // gray-500
+  tick: "#9ca3af", // gray-400
+  tickLabel: "#6b7280",
+  backdrop: "#ffffff",
+  deltaUp: "#16a34a", // green-600
+  deltaDown: "#dc2626", // red-600
+  sparkline: "#6b7280",
+  error: "#dc2626", // red-600
+  tooltip: "#111827", // gray-900
+  tooltipText: "#ffffff",
+  fontFamily: "Inter",
+} satisfies Omit<SpeedometerTheme, "gradientStops">;
+
+export const speedometerThemes: Record<SpeedometerThemeName, SpeedometerTheme> = {
+  // teal/green
+  pro: {
+    ...lightBase,
+    gradientStops: [
+      { offset: 0, color: "#D0EEEA" },
+      { offset: 0.6, color: "#30B7A4" },
+      { offset: 1, color: "#006166" },
+    ],
+  },
+  // light blue -> deep blue
+  free: {
+    ...lightBase,
+    gradientStops: [
+      { offset: 0, color: "#F1FAFF" },
+      { offset: 0.5, color: "#00B3F4" },
+      { offset: 1, color: "#2944EF" },
+    ],
+  },
+  dark: {
+    track: "#374151", // gray-700
+    gradientStops: [
+      { offset: 0, color: "#1e3a8a" },
+      { offset: 0.5, color: "#0ea5e9" },
+      { offset: 1, color: "#67e8f9" },
+    ],
+    needle: "#f9fafb", // gray-50
+    needleCap: "#f9fafb",
+    textGradient: ["#ffffff", "#9ca3af"],
+    label: "#f9fafb",
+    subLabel: "#9ca3af", // gray-400
+    tick: "#6b7280", // gray-500
+    tickLabel: "#9ca3af",
+    backdrop: "#111827", // gray-900
+    deltaUp: "#4ade80", // green-400
+    deltaDown: "#f87171", // red-400
+    sparkline: "#9ca3af",
+    error: "#f87171", // red-400
+    tooltip: "#f9fafb", // gray-50
+    tooltipText: "#111827",
+    fontFamily: "Inter",
+  },
+};
+
+// Apply theme layers (app-wide context first, then the per-gauge prop) over the `type` preset
+export const resolveSpeedometerTheme = (
+  type: GaugeType,
+  ...layers: (SpeedometerThemeInput | undefined)[]
+): SpeedometerTheme => {
+  return layers.reduce<SpeedometerTheme>((acc, layer) => {
+    if (!layer) return acc;
+    if (typeof layer === "string") return speedometerThemes[layer];
+    return { ...acc, ...layer };
+  }, speedometerThemes[type]);
+};
+
+const parseHexColor = (color: string): number[] | null => {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+  if (!match) return null;
+  const hex = match[1].length === 3 ? [...match[1]].map((c) => c + c).join("") : match[1];
+  return [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16));
+};
+
+// Color at t (0 - 1) along the stops; hex colors are blended, anything else snaps to the nearer stop
+export const sampleGradient = (stops: GradientStop[], t: number): string => {
+  const sorted = [...stops].sort((a, b) => a.offset - b.offset);
+  if (!sorted.length) return "transparent";
+  const next = sorted.findIndex((stop) => stop.offset >= t);
+  if (next <= 0) return sorted[next === 0 ? 0 : sorted.length - 1].color;
+  const a = sorted[next - 1];
+  const b = sorted[next];
+  const f = (t - a.offset) / (b.offset - a.offset || 1);
+  const ca = parseHexColor(a.color);
+  const cb = parseHexColor(b.color);
+  if (!ca || !cb) return f < 0.5 ? a.color : b.color;
+  return `#${ca.map((c, i) => Math.round(c + (cb[i] - c) * f).toString(16).padStart(2, "0")).join("")}`;
+};
+
+export const SpeedometerThemeContext = createContext<SpeedometerThemeInput | undefined>(undefined);
+
+export const useSpeedometerTheme = (): SpeedometerThemeInput | undefined => useContext(SpeedometerThemeContext);
@@ -0,0 +1,13 @@
+// "speedometer-component/geometry": the arc and domain math used by both renderers
+export {
+  buildArcPath,
+  buildRingWedgePathFromAngles,
+  clampPercentage,
+  clampValue,
+  layoutArc,
+  mapAngleToPercent,
+  mapPercentToAngle,
+  percentToValue,
+  polarPoint,
+  valueToPercent,
+} from "./components/speedometerGeometry";
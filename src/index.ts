@@ -0,0 +1,56 @@
+// Package entry: the component, its providers and the public types.
+// Geometry helpers, themes and the static SVG renderer are separate entry points
+// ("speedometer-component/geometry", "/themes", "/svg") so apps only bundle what they import.
+export { default as SpeedometerV2 } from "./components/SpeedometerV2";
+export type {
+  AnimateToOptions,
+  CenterSlotProps,
+  GaugeGeometry,
+  GaugeMarker,
+  GaugeScale,
+  GaugeSegments,
+  GaugeStatus,
+  GaugeTooltipTarget,
+  GaugeVariant,
+  GaugeZone,
+  LabelSlotProps,
+  MarkerStyle,
+  NeedleSlotProps,
+  OutOfRangeReport,
+  ReducedMotionSetting,
+  SpeedometerV2Handle,
+  SpeedometerV2Props,
+  TooltipSlotProps,
+  ValueFormatContext,
+  ValueFormatter,
+  ZoneMode,
+} from "./components/SpeedometerV2";
+
+export { default as SpeedometerThemeProvider } from "./components/SpeedometerThemeProvider";
+export type { SpeedometerThemeProviderProps } from "./components/SpeedometerThemeProvider";
+export type {
+  GaugeType,
+  GradientStop,
+  SpeedometerTheme,
+  SpeedometerThemeInput,
+  SpeedometerThemeName,
+} from "./components/speedometerThemes";
+
+export { default as SpeedometerLocaleProvider } from "./components/SpeedometerLocaleProvider";
+export type { SpeedometerLocaleProviderProps } from "./components/SpeedometerLocaleProvider";
+export { defaultSpeedometerMessages } from "./components/speedometerI18n";
+export type {
+  SpeedometerDirection,
+  SpeedometerLocaleSettings,
+  SpeedometerMessages,
+} from "./components/speedometerI18n";
+
+export type {
+  EasingFunction,
+  EasingPreset,
+  SpeedometerAnimation,
+  SpringAnimationConfig,
+  TweenAnimationConfig,
+  Waveform,
+} from "./components/speedometerAnimation";
+export type { LiveOptions, LiveSmoothing, LiveSource } from "./components/speedometerLive";
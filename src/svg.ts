@@ -0,0 +1,4 @@
+// "speedometer-component/svg": standalone SVG strings for Node (reports, emails). Kept apart from the main
+// entry because it pulls in react-dom/server
+export { renderSpeedometerSvg } from "./components/renderSpeedometerSvg";
+export type { RenderSpeedometerSvgOptions, StaticSpeedometerProps } from "./components/renderSpeedometerSvg";
@@ -0,0 +1,9 @@
+// "speedometer-component/themes": preset themes and the helpers the component resolves them with
+export { resolveSpeedometerTheme, sampleGradient, speedometerThemes } from "./components/speedometerThemes";
+export type {
+  GaugeType,
+  GradientStop,
+  SpeedometerTheme,
+  SpeedometerThemeInput,
+  SpeedometerThemeName,
+} from "./components/speedometerThemes";
@@ -1,7 +1,29 @@
-import { defineConfig } from 'vite'
+import { defineConfig } from 'vitest/config'
 import react from '@vitejs/plugin-react'
 
-// https://vite.dev/config/
+// Library build: one ESM and one CJS file per entry point; react stays a peer dependency.
+// The demo app lives in playground/ with its own config.
 export default defineConfig({
   plugins: [react()],
+  publicDir: false,
+  build: {
+    lib: {
+      entry: {
+        index: 'src/index.ts',
+        geometry: 'src/geometry.ts',
+        themes: 'src/themes.ts',
+        svg: 'src/svg.ts',
+      },
+      formats: ['es', 'cjs'],
+      fileName: (format, entryName) => `${entryName}.${format === 'es' ? 'js' : 'cjs'}`,
+    },
+    rollupOptions: {
+      external: [/^react($|\/)/, /^react-dom($|\/)/],
+    },
+    sourcemap: true,
+    minify: false, // apps minify; readable output keeps stack traces and tree-shaking simple
+  },
+  test: {
+    environment: 'jsdom',
+  },
 })